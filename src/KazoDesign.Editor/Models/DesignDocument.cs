@@ -5,6 +5,12 @@ namespace KazoDesign.Editor.Models;
 /// </summary>
 public class DesignDocument
 {
+    /// <summary>
+    /// Version of the document format. The VS Code extension migrates designs
+    /// saved with older versions before loading them.
+    /// </summary>
+    public int SchemaVersion { get; set; } = 1;
+
     /// <summary>
     /// Document title.
     /// </summary>
@@ -30,6 +36,13 @@ public class DesignDocument
     /// </summary>
     public string BackgroundColor { get; set; } = "#1e1e1e";
 
+    /// <summary>
+    /// Image drawn under the elements of the main canvas, as a data URI.
+    /// It is locked: it cannot be selected, moved or deleted. Set when
+    /// annotating a screenshot or other image.
+    /// </summary>
+    public string? BackgroundImage { get; set; }
+
     /// <summary>
     /// All design elements on the canvas.
     /// </summary>
@@ -53,6 +53,17 @@ public class DesignService
     /// </summary>
     public List<string> ViewBreadcrumb { get; private set; } = new();
     
+    /// <summary>
+    /// Title of the AI request this editor was opened for, shown in the request banner.
+    /// </summary>
+    public string? McpRequestTitle { get; private set; }
+    
+    /// <summary>
+    /// Prompt or instruction of the AI request, shown in the request banner.
+    /// Null when there is no request or the banner was dismissed.
+    /// </summary>
+    public string? McpRequestPrompt { get; private set; }
+    
     public event Action? OnChange;
     
     public DesignService(IJSRuntime jsRuntime)
@@ -64,6 +75,16 @@ public class DesignService
     {
         Document.ModifiedAt = DateTime.UtcNow;
         OnChange?.Invoke();
+        PublishDesignChanged();
+    }
+    
+    /// <summary>
+    /// Sends the current document JSON to the host so it can mark the file dirty or persist webview state.
+    /// </summary>
+    private void PublishDesignChanged()
+    {
+        var json = JsonSerializer.Serialize(Document, JsonOptions);
+        _ = _jsRuntime.InvokeVoidAsync("kazoDesign.notifyDesignChanged", json).AsTask();
     }
     
     public void SelectElement(DesignElement? element)
@@ -190,6 +211,7 @@ public class DesignService
     
     /// <summary>
     /// Loads a design from JSON. Called from JavaScript.
+    /// Loading does not count as a modification, so no change is published back to the host.
     /// </summary>
     [JSInvokable]
     public Task LoadDesign(string json)
@@ -201,7 +223,6 @@ public class DesignService
             {
                 Document = document;
                 SelectElement(null);
-                NotifyStateChanged();
             }
         }
         catch (Exception ex)
@@ -232,10 +253,36 @@ public class DesignService
             Document.Prompt = prompt;
         }
         
+        McpRequestTitle = string.IsNullOrWhiteSpace(title) ? null : title;
+        McpRequestPrompt = string.IsNullOrWhiteSpace(prompt) ? null : prompt;
+        
         NotifyStateChanged();
         return Task.CompletedTask;
     }
     
+    /// <summary>
+    /// Clears the AI request once it has ended (timed out, cancelled or answered).
+    /// Called from JavaScript when VS Code sends mcpRequestEnded message.
+    /// </summary>
+    [JSInvokable]
+    public Task EndMcpRequest()
+    {
+        McpRequestTitle = null;
+        McpRequestPrompt = null;
+        
+        NotifyStateChanged();
+        return Task.CompletedTask;
+    }
+    
+    /// <summary>
+    /// Hides the AI request banner.
+    /// </summary>
+    public void DismissMcpRequest()
+    {
+        McpRequestPrompt = null;
+        OnChange?.Invoke();
+    }
+    
     /// <summary>
     /// Exports the current design. Can be called from JavaScript.
     /// </summary>
@@ -272,6 +319,10 @@ public class DesignService
         var sb = new System.Text.StringBuilder();
         sb.AppendLine($"<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"{Document.CanvasWidth}\" height=\"{Document.CanvasHeight}\" viewBox=\"0 0 {Document.CanvasWidth} {Document.CanvasHeight}\">");
         sb.AppendLine($"  <rect width=\"100%\" height=\"100%\" fill=\"{Document.BackgroundColor}\" />");
+        if (!string.IsNullOrEmpty(Document.BackgroundImage))
+        {
+            sb.AppendLine($"  <image x=\"0\" y=\"0\" width=\"{Document.CanvasWidth}\" height=\"{Document.CanvasHeight}\" href=\"{Document.BackgroundImage}\" preserveAspectRatio=\"xMidYMid meet\" />");
+        }
         
         foreach (var element in Document.Elements)
         {
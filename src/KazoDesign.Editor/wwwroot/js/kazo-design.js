@@ -40,6 +40,21 @@ window.kazoDesign = {
         return null;
     },
 
+    // Debounce handle for design change notifications
+    _designChangedTimer: null,
+
+    // Notify VS Code that the design changed (debounced so drags don't flood the host)
+    notifyDesignChanged: function(json) {
+        clearTimeout(window.kazoDesign._designChangedTimer);
+        window.kazoDesign._designChangedTimer = setTimeout(() => {
+            // Persist in webview state so a restored panel can reload the design
+            if (window.vscodeApi) {
+                window.vscodeApi.setState({ json });
+            }
+            window.kazoDesign.postMessage({ type: 'designChanged', data: { json } });
+        }, 300);
+    },
+
     // Confirm sketch and return to AI assistant
     confirmAndReturn: async function(svg, json, title) {
         // Get full export result to include all metadata
@@ -55,12 +70,102 @@ window.kazoDesign = {
             }
         }
         
+        // Rasterize locally so vision-capable models get an image instead of SVG markup
+        const png = await window.kazoDesign.rasterizeSvg(svg, window.kazoDesign.imageMaxSize);
+
         window.kazoDesign.postMessage({
             type: 'confirmSketch',
-            data: { svg, json, title, description, prompt }
+            data: { svg, json, title, description, prompt, png, requestId: window.kazoDesign.mcpRequestId }
         });
     },
 
+    // End the AI request without a sketch; with replyInText VS Code asks for a text answer instead
+    cancelRequest: function(replyInText) {
+        window.kazoDesign.postMessage({
+            type: 'cancelSketch',
+            data: { requestId: window.kazoDesign.mcpRequestId, replyInText: !!replyInText }
+        });
+    },
+
+    // Longest side in pixels of the PNG sent with a confirmed sketch (0 disables it), from kazoDesign.sketchImage.maxSize
+    imageMaxSize: 1024,
+
+    // Render SVG markup to a base64 PNG no larger than maxSize on its longest side
+    rasterizeSvg: async function(svg, maxSize) {
+        if (!svg || !maxSize) {
+            return null;
+        }
+        try {
+            const image = await window.kazoDesign._renderSvg(svg, (width, height) => Math.min(1, maxSize / Math.max(width, height)), 'image/png');
+            return image.data;
+        } catch (err) {
+            console.error('Failed to rasterize sketch:', err);
+            return null;
+        }
+    },
+
+    // Render the current design for export (PNG and/or JPEG at a scale), answering VS Code's renderDesign request
+    renderDesign: async function(requestId, scale, formats) {
+        try {
+            const result = await window.kazoDesign.exportDesign();
+            if (!result || !result.svg) {
+                throw new Error('The editor has no design to render');
+            }
+
+            const rendered = { requestId, svg: result.svg, json: result.json, title: result.title };
+            for (const format of formats || []) {
+                // JPEG has no transparency, so it is drawn on white (used for PDF pages)
+                const image = await window.kazoDesign._renderSvg(result.svg, () => scale || 1, 'image/' + format, format === 'jpeg' ? '#ffffff' : null);
+                rendered[format] = image.data;
+                rendered.width = image.sourceWidth;
+                rendered.height = image.sourceHeight;
+                rendered.imageWidth = image.width;
+                rendered.imageHeight = image.height;
+            }
+            window.kazoDesign.postMessage({ type: 'renderDesignResult', data: rendered });
+        } catch (err) {
+            console.error('Failed to render design:', err);
+            window.kazoDesign.postMessage({ type: 'renderDesignResult', data: { requestId, error: err.message || String(err) } });
+        }
+    },
+
+    // Draw SVG markup on a canvas; getScale(width, height) gives the scale from the SVG's own size
+    _renderSvg: async function(svg, getScale, mimeType, background) {
+        const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+        try {
+            const image = new Image();
+            await new Promise((resolve, reject) => {
+                image.onload = resolve;
+                image.onerror = () => reject(new Error('SVG could not be loaded as an image'));
+                image.src = url;
+            });
+
+            const sourceWidth = image.naturalWidth || 800;
+            const sourceHeight = image.naturalHeight || 600;
+            const scale = getScale(sourceWidth, sourceHeight);
+
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+            canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+            const context = canvas.getContext('2d');
+            if (background) {
+                context.fillStyle = background;
+                context.fillRect(0, 0, canvas.width, canvas.height);
+            }
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+            return {
+                data: canvas.toDataURL(mimeType, 0.92).replace(/^data:[^;]+;base64,/, ''),
+                width: canvas.width,
+                height: canvas.height,
+                sourceWidth,
+                sourceHeight
+            };
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    },
+
     // Download SVG as file (browser mode only)
     downloadSvg: function(svgContent, filename) {
         // In VS Code, send to extension instead
@@ -177,16 +282,39 @@ window.kazoDesign = {
                     }
                 }
                 break;
+            case 'renderDesign':
+                window.kazoDesign.renderDesign(message.data.requestId, message.data.scale, message.data.formats);
+                break;
+            case 'settings':
+                // Sent when the editor is ready and whenever the settings change
+                if (message.data && typeof message.data.imageMaxSize === 'number') {
+                    window.kazoDesign.imageMaxSize = message.data.imageMaxSize;
+                }
+                break;
             case 'mcpContext':
                 // Receive MCP context from VS Code (AI prompt and title)
                 window.kazoDesign.setMcpContext(message.data);
                 break;
+            case 'mcpRequestEnded':
+                // The request timed out or was answered elsewhere: hide its banner
+                window.kazoDesign.mcpRequestId = null;
+                if (window.kazoDesign.dotNetRef) {
+                    window.kazoDesign.dotNetRef.invokeMethodAsync('EndMcpRequest')
+                        .catch(err => console.error('Failed to end MCP request:', err));
+                }
+                break;
         }
     },
 
+    // Id of the AI sketch request this editor answers (echoed back on confirm)
+    mcpRequestId: null,
+
     // Set MCP context (called when AI requests a sketch)
     setMcpContext: async function(context) {
         console.log('Received MCP context:', context);
+        if (context) {
+            window.kazoDesign.mcpRequestId = context.requestId || null;
+        }
         if (window.kazoDesign.dotNetRef && context) {
             try {
                 await window.kazoDesign.dotNetRef.invokeMethodAsync('SetMcpContext', context.title, context.prompt);
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DesignDocument } from './designDocument';
+import { parseDesignDocument } from './designSchema';
+import { readSavedDesign } from './designMarkdown';
+import { CodeGenerator, CodeGeneratorRegistry } from './codegen/codeGenerator';
+import { exists, resolveWorkspacePath } from './workspaceFiles';
+import { toSlug } from './designSaveLocation';
+
+/** Workspace folder generated code is written to by default */
+const DEFAULT_OUTPUT_ROOT = 'kazo-generated';
+
+/**
+ * Default output folder for a design, relative to the workspace, e.g. `kazo-generated/login-page-react`
+ */
+export function getDefaultOutputFolder(document: DesignDocument, generator: CodeGenerator): string {
+    const slug = toSlug(document.title) || 'design';
+    return `${DEFAULT_OUTPUT_ROOT}/${slug}-${generator.id}`;
+}
+
+/**
+ * Runs a generator and writes its files into a folder.
+ * Returns the written files, in the order the generator produced them.
+ */
+export async function writeGeneratedCode(document: DesignDocument, generator: CodeGenerator, folder: vscode.Uri): Promise<vscode.Uri[]> {
+    const files = generator.generate(document);
+    const written: vscode.Uri[] = [];
+
+    for (const file of files) {
+        // Generators return relative paths; never let one escape the output folder
+        const relative = path.posix.normalize(file.path);
+        if (relative === '..' || relative.startsWith('../') || path.posix.isAbsolute(relative)) {
+            throw new Error(`Generator "${generator.id}" returned a path outside the output folder: ${file.path}`);
+        }
+
+        const uri = vscode.Uri.joinPath(folder, relative);
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(file.content));
+        written.push(uri);
+    }
+
+    return written;
+}
+
+/**
+ * Returns the files a generator would overwrite in a folder
+ */
+export async function findExistingFiles(document: DesignDocument, generator: CodeGenerator, folder: vscode.Uri): Promise<string[]> {
+    const existing: string[] = [];
+    for (const file of generator.generate(document)) {
+        if (await exists(vscode.Uri.joinPath(folder, file.path))) {
+            existing.push(file.path);
+        }
+    }
+    return existing;
+}
+
+/**
+ * `Kazo Design: Generate Code from Design`: picks the design (the given file,
+ * the active editor, or one chosen by the user), the target and the output
+ * folder, then writes the files and opens the first one
+ */
+export async function generateCodeInteractively(
+    registry: CodeGeneratorRegistry,
+    activeDesignJson: string | undefined,
+    uri?: vscode.Uri
+): Promise<void> {
+    let json = uri ? undefined : activeDesignJson;
+    if (!json) {
+        let source = uri;
+        if (!source) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Generate Code',
+                title: 'Generate Code from Design',
+                filters: {
+                    'Kazo Designs': ['kazo', 'json', 'md', 'svg']
+                }
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+            source = picked[0];
+        }
+
+        try {
+            json = await readSavedDesign(source);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not open design ${path.basename(source.path)}: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+    }
+
+    let document: DesignDocument;
+    try {
+        document = parseDesignDocument(json);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not generate code: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        registry.getAll().map(generator => ({ label: generator.label, description: generator.description, generator })),
+        {
+            title: 'Generate Code from Design',
+            placeHolder: 'Choose the code to generate'
+        }
+    );
+    if (!picked) {
+        return;
+    }
+    const { generator } = picked;
+
+    const folderPath = await vscode.window.showInputBox({
+        title: 'Generate Code from Design',
+        prompt: 'Folder to write the generated files to (relative to the workspace)',
+        value: getDefaultOutputFolder(document, generator)
+    });
+    if (!folderPath) {
+        return;
+    }
+
+    try {
+        const folder = resolveWorkspacePath(folderPath);
+        const existing = await findExistingFiles(document, generator, folder);
+        if (existing.length > 0) {
+            const overwrite = await vscode.window.showWarningMessage(
+                `${existing.join(', ')} already exist${existing.length === 1 ? 's' : ''} in ${folderPath}. Overwrite?`,
+                { modal: true },
+                'Overwrite'
+            );
+            if (overwrite !== 'Overwrite') {
+                return;
+            }
+        }
+
+        const files = await writeGeneratedCode(document, generator, folder);
+        if (files.length > 0) {
+            await vscode.window.showTextDocument(files[0]);
+        }
+        vscode.window.showInformationMessage(`Generated ${files.length} ${generator.label} file${files.length === 1 ? '' : 's'} in ${folderPath}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to generate code: ${error instanceof Error ? error.message : error}`);
+    }
+}
@@ -0,0 +1,42 @@
+import { DesignDocument } from '../designDocument';
+import { CodeGenerator, GeneratedFile } from './codeGenerator';
+import { buildMarkup, escapeHtml, renderCss, renderTags, toComponentName } from './markup';
+
+/**
+ * Generates a Blazor component with an isolated stylesheet (`.razor.css`)
+ */
+export class BlazorGenerator implements CodeGenerator {
+    public readonly id = 'blazor';
+    public readonly label = 'Blazor (.razor)';
+    public readonly description = 'Razor component with CSS isolation';
+
+    public generate(document: DesignDocument): GeneratedFile[] {
+        const name = toComponentName(document.title);
+        const { root, rules } = buildMarkup(document);
+        const markup = renderTags(root, {
+            classAttribute: 'class',
+            selfClosing: true,
+            escapeText: escapeRazor,
+            escapeAttribute: escapeRazor
+        });
+
+        const component = [
+            `@* Generated by Kazo Design from "${document.title.replace(/\*@/g, '* @')}" *@`,
+            '',
+            markup,
+            ''
+        ].join('\n');
+
+        return [
+            { path: `${name}.razor`, content: component },
+            { path: `${name}.razor.css`, content: renderCss(rules) }
+        ];
+    }
+}
+
+/**
+ * Escapes markup for Razor, where `@` starts code
+ */
+function escapeRazor(text: string): string {
+    return escapeHtml(text).replace(/@/g, '@@');
+}
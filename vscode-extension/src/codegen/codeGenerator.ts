@@ -0,0 +1,76 @@
+import { DesignDocument } from '../designDocument';
+import { BlazorGenerator } from './blazorGenerator';
+import { HtmlGenerator } from './htmlGenerator';
+import { ReactGenerator } from './reactGenerator';
+
+/**
+ * Code generation from designs.
+ *
+ * A generator turns a design into source files for one target (HTML, React,
+ * Blazor…). Generators are pure functions of the design so they can be tested
+ * on JSON fixtures; writing the files is left to the caller. This folder must
+ * not import `vscode`.
+ */
+
+/**
+ * File produced by a generator
+ */
+export interface GeneratedFile {
+    /** Path relative to the output folder, using `/` separators */
+    path: string;
+    content: string;
+}
+
+/**
+ * Converts a design into source files for one target
+ */
+export interface CodeGenerator {
+    /** Unique id used to pick the generator, e.g. `html` */
+    readonly id: string;
+    /** Name shown to the user */
+    readonly label: string;
+    readonly description?: string;
+    generate(document: DesignDocument): GeneratedFile[];
+}
+
+/**
+ * Available code generators, keyed by id.
+ * Other extensions can add their own through the Kazo Design extension API.
+ */
+export class CodeGeneratorRegistry {
+    private readonly generators = new Map<string, CodeGenerator>();
+
+    constructor(generators: CodeGenerator[] = []) {
+        for (const generator of generators) {
+            this.register(generator);
+        }
+    }
+
+    /**
+     * Adds a generator, replacing any generator with the same id.
+     * Returns a function that removes it again.
+     */
+    public register(generator: CodeGenerator): () => void {
+        this.generators.set(generator.id, generator);
+        return () => {
+            if (this.generators.get(generator.id) === generator) {
+                this.generators.delete(generator.id);
+            }
+        };
+    }
+
+    public get(id: string): CodeGenerator | undefined {
+        return this.generators.get(id);
+    }
+
+    public getAll(): CodeGenerator[] {
+        return [...this.generators.values()];
+    }
+}
+
+/**
+ * Creates a registry with the built-in HTML, React and Blazor generators
+ */
+export function createCodeGeneratorRegistry(): CodeGeneratorRegistry {
+    return new CodeGeneratorRegistry([new HtmlGenerator(), new ReactGenerator(), new BlazorGenerator()]);
+}
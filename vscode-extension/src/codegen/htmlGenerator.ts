@@ -0,0 +1,44 @@
+import { DesignDocument } from '../designDocument';
+import { CodeGenerator, GeneratedFile } from './codeGenerator';
+import { buildMarkup, escapeHtml, renderCss, renderTags } from './markup';
+
+/**
+ * Generates a static HTML page with a CSS stylesheet
+ */
+export class HtmlGenerator implements CodeGenerator {
+    public readonly id = 'html';
+    public readonly label = 'HTML + CSS';
+    public readonly description = 'index.html and styles.css using flexbox and CSS grid';
+
+    public generate(document: DesignDocument): GeneratedFile[] {
+        const { root, rules } = buildMarkup(document);
+        const body = renderTags(root, {
+            classAttribute: 'class',
+            selfClosing: false,
+            escapeText: escapeHtml,
+            escapeAttribute: escapeHtml
+        }, 1);
+
+        const html = [
+            '<!DOCTYPE html>',
+            '<html lang="en">',
+            '<head>',
+            '    <meta charset="utf-8">',
+            '    <meta name="viewport" content="width=device-width, initial-scale=1">',
+            `    <title>${escapeHtml(document.title)}</title>`,
+            '    <link rel="stylesheet" href="styles.css">',
+            '</head>',
+            '<body>',
+            `    <!-- Generated by Kazo Design from "${escapeHtml(document.title)}" -->`,
+            body,
+            '</body>',
+            '</html>',
+            ''
+        ].join('\n');
+
+        return [
+            { path: 'index.html', content: html },
+            { path: 'styles.css', content: 'body {\n    margin: 0;\n}\n\n' + renderCss(rules) }
+        ];
+    }
+}
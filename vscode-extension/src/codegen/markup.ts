@@ -0,0 +1,392 @@
+import { DesignDocument, DesignElement, ElementMeaning } from '../designDocument';
+import { Arrangement, LayoutNode, buildLayoutTree, getArrangement } from '../designLayout';
+
+/**
+ * Framework-neutral markup built from a design, shared by the HTML, React and
+ * Blazor generators. Elements become semantic tags chosen from their meaning,
+ * nesting follows the layout tree, and absolute positions are replaced by
+ * flex/grid layout derived from how siblings are arranged.
+ */
+
+/**
+ * Tag in the generated markup
+ */
+export interface MarkupNode {
+    tag: string;
+    className: string;
+    attributes: Record<string, string>;
+    text?: string;
+    children: MarkupNode[];
+}
+
+/**
+ * CSS rule for one class
+ */
+export interface StyleRule {
+    className: string;
+    declarations: Record<string, string>;
+}
+
+/**
+ * Markup and styles for a whole design
+ */
+export interface Markup {
+    root: MarkupNode;
+    rules: StyleRule[];
+}
+
+/**
+ * Options for serializing markup in a given dialect
+ */
+export interface RenderOptions {
+    /** Attribute holding CSS classes (`class` or `className`) */
+    classAttribute: string;
+    /** Whether void elements are written as `<img />` */
+    selfClosing: boolean;
+    escapeText(text: string): string;
+    escapeAttribute(value: string): string;
+}
+
+/** Tags used for each meaning */
+const MEANING_TAGS: Partial<Record<ElementMeaning, string>> = {
+    NavBar: 'nav',
+    Toolbar: 'div',
+    Body: 'main',
+    Panel: 'section',
+    Footer: 'footer',
+    Control: 'button',
+    View: 'section'
+};
+
+const VOID_TAGS = new Set(['img', 'hr', 'input']);
+
+/**
+ * Builds the markup tree and style rules of a design
+ */
+export function buildMarkup(document: DesignDocument): Markup {
+    const builder = new MarkupBuilder(document.canvasWidth);
+    const layout = buildLayoutTree(document);
+
+    builder.addRule('kazo-design', {
+        'box-sizing': 'border-box',
+        'width': '100%',
+        'max-width': `${document.canvasWidth}px`,
+        'min-height': `${document.canvasHeight}px`,
+        'margin': '0 auto',
+        'background': document.backgroundColor,
+        ...arrangementStyles(getArrangement(layout))
+    });
+    const root: MarkupNode = {
+        tag: 'div',
+        className: 'kazo-design',
+        attributes: {},
+        children: builder.buildChildren(layout, 'kazo-design', undefined)
+    };
+
+    return { root, rules: builder.rules };
+}
+
+/**
+ * Serializes a markup tree as indented tags
+ */
+export function renderTags(node: MarkupNode, options: RenderOptions, depth = 0): string {
+    const indent = '    '.repeat(depth);
+    const attributes = [`${options.classAttribute}="${node.className}"`]
+        .concat(Object.entries(node.attributes).map(([name, value]) => `${name}="${options.escapeAttribute(value)}"`))
+        .join(' ');
+
+    if (VOID_TAGS.has(node.tag)) {
+        return `${indent}<${node.tag} ${attributes}${options.selfClosing ? ' />' : '>'}`;
+    }
+
+    const text = node.text !== undefined ? options.escapeText(node.text) : '';
+    if (node.children.length === 0) {
+        return `${indent}<${node.tag} ${attributes}>${text}</${node.tag}>`;
+    }
+
+    const lines = [`${indent}<${node.tag} ${attributes}>`];
+    if (text) {
+        lines.push(`${indent}    ${text}`);
+    }
+    for (const child of node.children) {
+        lines.push(renderTags(child, options, depth + 1));
+    }
+    lines.push(`${indent}</${node.tag}>`);
+    return lines.join('\n');
+}
+
+/**
+ * Serializes style rules as a stylesheet
+ */
+export function renderCss(rules: StyleRule[]): string {
+    return rules
+        .filter(rule => Object.keys(rule.declarations).length > 0)
+        .map(rule => {
+            const declarations = Object.entries(rule.declarations).map(([name, value]) => `    ${name}: ${value};`);
+            return `.${rule.className} {\n${declarations.join('\n')}\n}`;
+        })
+        .join('\n\n') + '\n';
+}
+
+/**
+ * Escapes text for HTML and Blazor markup
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Turns a design title into a PascalCase identifier, e.g. "Login page" → `LoginPage`
+ */
+export function toComponentName(title: string): string {
+    const name = title
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(word => word.length > 0)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+    if (!name) {
+        return 'KazoDesign';
+    }
+    return /^[0-9]/.test(name) ? `Design${name}` : name;
+}
+
+/**
+ * Builds markup nodes and collects their styles, keeping class names unique
+ */
+class MarkupBuilder {
+    public readonly rules: StyleRule[] = [];
+    private readonly usedClassNames = new Set<string>();
+
+    constructor(private readonly canvasWidth: number) {}
+
+    /**
+     * Adds the rule for a class. Rules are added parent first, so the
+     * declarations object may still be filled in while children are built.
+     */
+    public addRule(className: string, declarations: Record<string, string>): void {
+        this.usedClassNames.add(className);
+        this.rules.push({ className, declarations });
+    }
+
+    /**
+     * Builds the children of a container. Uneven rows are wrapped in row elements
+     * so each row can be laid out with flexbox.
+     */
+    public buildChildren(nodes: LayoutNode[], parentClass: string, parent: LayoutNode | undefined): MarkupNode[] {
+        const arrangement = getArrangement(nodes);
+        if (arrangement?.kind !== 'rows') {
+            return nodes.map(node => this.buildNode(node, parent));
+        }
+
+        return arrangement.rows.map(row => {
+            if (row.length === 1) {
+                return this.buildNode(row[0], parent);
+            }
+            const className = this.uniqueClassName(`${parentClass}-row`);
+            this.addRule(className, arrangementStyles({ kind: 'row', rows: [row] }));
+            return { tag: 'div', className, attributes: {}, children: row.map(node => this.buildNode(node, parent)) };
+        });
+    }
+
+    private buildNode(node: LayoutNode, parent: LayoutNode | undefined): MarkupNode {
+        const { element } = node;
+        const className = this.uniqueClassName(element.name || `${element.meaning && element.meaning !== 'None' ? element.meaning : element.$type}`);
+        const markup: MarkupNode = { tag: getTag(element), className, attributes: {}, children: [] };
+        const styles: Record<string, string> = {};
+        this.addRule(className, styles);
+        const containerWidth = parent ? parent.bounds.width : this.canvasWidth;
+
+        // A control with a single label becomes a button with that text
+        const label = element.meaning === 'Control' && node.children.length === 1 && node.children[0].element.$type === 'text'
+            ? node.children[0].element
+            : undefined;
+        const children = label ? [] : node.children;
+
+        switch (element.$type) {
+            case 'text':
+                markup.text = element.content;
+                if (element.textType === 'Link') {
+                    markup.attributes.href = element.linkUrl || '#';
+                }
+                Object.assign(styles, textStyles(element));
+                break;
+            case 'image':
+                if (element.meaning !== 'ImagePlaceholder' && element.source) {
+                    markup.attributes.src = element.source;
+                    markup.attributes.alt = element.name || element.description || '';
+                }
+                Object.assign(styles, sizeStyles(node, containerWidth));
+                if (element.meaning === 'ImagePlaceholder' || !element.source) {
+                    styles['background'] = '#808080';
+                }
+                break;
+            case 'line':
+                styles['border'] = 'none';
+                styles['border-top'] = `${element.strokeWidth ?? 1}px ${element.strokeDashArray ? 'dashed' : 'solid'} ${element.stroke ?? 'currentColor'}`;
+                styles['width'] = `${Math.round(node.bounds.width) || 1}px`;
+                break;
+            case 'rectangle':
+            case 'circle':
+                Object.assign(styles, sizeStyles(node, containerWidth), shapeStyles(element));
+                break;
+        }
+
+        if (label?.$type === 'text') {
+            markup.text = label.content;
+            Object.assign(styles, textStyles(label));
+        }
+        if (element.meaning === 'Toolbar') {
+            markup.attributes.role = 'toolbar';
+        }
+        if (markup.tag === 'button') {
+            markup.attributes.type = 'button';
+        }
+
+        // Children drawn inside the shape, then the contents of a View's own canvas
+        const contents = children.concat(node.viewContents ?? []);
+        if (contents.length > 0) {
+            Object.assign(styles, arrangementStyles(getArrangement(contents)), paddingStyles(node, children));
+            markup.children = this.buildChildren(contents, className, node);
+        }
+
+        return markup;
+    }
+
+    private uniqueClassName(name: string): string {
+        const base = name
+            .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '') || 'element';
+        const safe = /^[0-9]/.test(base) ? `el-${base}` : base;
+
+        let candidate = safe;
+        for (let index = 2; this.usedClassNames.has(candidate); index++) {
+            candidate = `${safe}-${index}`;
+        }
+        this.usedClassNames.add(candidate);
+        return candidate;
+    }
+}
+
+function getTag(element: DesignElement): string {
+    switch (element.$type) {
+        case 'text':
+            if (element.textType === 'Link') {
+                return 'a';
+            }
+            return element.textType && element.textType !== 'Paragraph' ? element.textType.toLowerCase() : 'p';
+        case 'line':
+            return 'hr';
+        case 'image':
+            return element.meaning === 'ImagePlaceholder' || !element.source ? 'div' : 'img';
+        default:
+            return (element.meaning && MEANING_TAGS[element.meaning]) || 'div';
+    }
+}
+
+/**
+ * Flex or grid layout for a container's children, with gaps measured from the drawing
+ */
+function arrangementStyles(arrangement: Arrangement | undefined): Record<string, string> {
+    if (!arrangement) {
+        return {};
+    }
+
+    const { rows } = arrangement;
+    switch (arrangement.kind) {
+        case 'row':
+            return { 'display': 'flex', 'align-items': 'center', 'gap': `${horizontalGap(rows[0])}px` };
+        case 'column':
+        case 'rows':
+            return { 'display': 'flex', 'flex-direction': 'column', 'gap': `${verticalGap(rows)}px` };
+        case 'grid':
+            return {
+                'display': 'grid',
+                'grid-template-columns': `repeat(${rows[0].length}, 1fr)`,
+                'gap': `${verticalGap(rows)}px ${horizontalGap(rows[0])}px`
+            };
+    }
+}
+
+function horizontalGap(row: LayoutNode[]): number {
+    const gaps = row.slice(1).map((node, index) => node.bounds.x - (row[index].bounds.x + row[index].bounds.width));
+    return averageGap(gaps);
+}
+
+function verticalGap(rows: LayoutNode[][]): number {
+    const bottoms = rows.map(row => Math.max(...row.map(node => node.bounds.y + node.bounds.height)));
+    const tops = rows.map(row => Math.min(...row.map(node => node.bounds.y)));
+    return averageGap(tops.slice(1).map((top, index) => top - bottoms[index]));
+}
+
+function averageGap(gaps: number[]): number {
+    if (gaps.length === 0) {
+        return 0;
+    }
+    return Math.max(0, Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length));
+}
+
+/**
+ * Padding from the container's edge to its nearest children
+ */
+function paddingStyles(node: LayoutNode, children: LayoutNode[]): Record<string, string> {
+    if (children.length === 0) {
+        return {};
+    }
+    const top = Math.max(0, Math.round(Math.min(...children.map(child => child.bounds.y)) - node.bounds.y));
+    const left = Math.max(0, Math.round(Math.min(...children.map(child => child.bounds.x)) - node.bounds.x));
+    return { 'padding': `${top}px ${left}px`, 'box-sizing': 'border-box' };
+}
+
+/**
+ * Size of a box; boxes spanning (almost) their container's width stretch to fill it
+ */
+function sizeStyles(node: LayoutNode, containerWidth: number): Record<string, string> {
+    const width = Math.round(node.bounds.width);
+    const height = Math.round(node.bounds.height);
+    const hasContent = node.children.length > 0 || node.viewContents !== undefined;
+    return {
+        'width': width >= containerWidth * 0.9 ? '100%' : `${width}px`,
+        [hasContent ? 'min-height' : 'height']: `${height}px`
+    };
+}
+
+function shapeStyles(element: DesignElement): Record<string, string> {
+    const styles: Record<string, string> = {};
+    if (element.$type !== 'rectangle' && element.$type !== 'circle') {
+        return styles;
+    }
+    if (element.fill) {
+        styles['background'] = element.fill;
+    }
+    if (element.stroke && element.strokeWidth) {
+        styles['border'] = `${element.strokeWidth}px solid ${element.stroke}`;
+    }
+    if (element.$type === 'circle') {
+        styles['border-radius'] = '50%';
+    } else if (element.cornerRadius) {
+        styles['border-radius'] = `${element.cornerRadius}px`;
+    }
+    return styles;
+}
+
+function textStyles(element: DesignElement): Record<string, string> {
+    if (element.$type !== 'text') {
+        return {};
+    }
+    const styles: Record<string, string> = { 'margin': '0' };
+    if (element.fill) {
+        styles['color'] = element.fill;
+    }
+    if (element.fontSize) {
+        styles['font-size'] = `${element.fontSize}px`;
+    }
+    if (element.fontFamily) {
+        styles['font-family'] = element.fontFamily;
+    }
+    if (element.fontWeight && element.fontWeight !== 'normal') {
+        styles['font-weight'] = element.fontWeight;
+    }
+    return styles;
+}
@@ -0,0 +1,49 @@
+import { DesignDocument } from '../designDocument';
+import { CodeGenerator, GeneratedFile } from './codeGenerator';
+import { buildMarkup, escapeHtml, renderCss, renderTags, toComponentName } from './markup';
+
+/**
+ * Generates a React function component (TSX) with a companion stylesheet
+ */
+export class ReactGenerator implements CodeGenerator {
+    public readonly id = 'react';
+    public readonly label = 'React (TSX)';
+    public readonly description = 'Function component and CSS file';
+
+    public generate(document: DesignDocument): GeneratedFile[] {
+        const name = toComponentName(document.title);
+        const { root, rules } = buildMarkup(document);
+        const jsx = renderTags(root, {
+            classAttribute: 'className',
+            selfClosing: true,
+            escapeText: escapeJsx,
+            escapeAttribute: escapeHtml
+        }, 2);
+
+        const component = [
+            `import './${name}.css';`,
+            '',
+            '/**',
+            ` * Generated by Kazo Design from "${document.title.replace(/\*\//g, '* /')}"`,
+            ' */',
+            `export function ${name}() {`,
+            '    return (',
+            jsx,
+            '    );',
+            '}',
+            ''
+        ].join('\n');
+
+        return [
+            { path: `${name}.tsx`, content: component },
+            { path: `${name}.css`, content: renderCss(rules) }
+        ];
+    }
+}
+
+/**
+ * Escapes JSX text; braces would otherwise start an expression
+ */
+function escapeJsx(text: string): string {
+    return escapeHtml(text).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+}
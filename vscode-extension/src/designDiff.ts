@@ -0,0 +1,104 @@
+import { DesignDocument, DesignElement } from './designDocument';
+
+/**
+ * Summary of an element as reported in a design diff
+ */
+export interface DiffElement {
+    id: string;
+    type: string;
+    name?: string | null;
+    x: number;
+    y: number;
+}
+
+/**
+ * Element whose position changed
+ */
+export interface MovedElement extends DiffElement {
+    from: { x: number; y: number };
+}
+
+/**
+ * Element whose properties (other than position) changed
+ */
+export interface ModifiedElement extends DiffElement {
+    /** Names of the properties that changed, e.g. `width`, `fill` */
+    changes: string[];
+}
+
+/**
+ * Structured difference between two versions of a design.
+ * Elements are matched by id.
+ */
+export interface DesignDiff {
+    added: DiffElement[];
+    removed: DiffElement[];
+    moved: MovedElement[];
+    modified: ModifiedElement[];
+    unchanged: number;
+}
+
+/**
+ * Compares two designs and reports which elements were added, removed, moved or otherwise modified
+ */
+export function diffDesigns(before: DesignDocument, after: DesignDocument): DesignDiff {
+    const previous = new Map(before.elements.map(element => [element.id, element]));
+    const diff: DesignDiff = { added: [], removed: [], moved: [], modified: [], unchanged: 0 };
+
+    for (const element of after.elements) {
+        const old = previous.get(element.id);
+        previous.delete(element.id);
+
+        if (!old) {
+            diff.added.push(summarize(element));
+            continue;
+        }
+
+        const moved = old.x !== element.x || old.y !== element.y;
+        const changes = changedProperties(old, element);
+
+        if (moved) {
+            diff.moved.push({ ...summarize(element), from: { x: old.x, y: old.y } });
+        }
+        if (changes.length > 0) {
+            diff.modified.push({ ...summarize(element), changes });
+        }
+        if (!moved && changes.length === 0) {
+            diff.unchanged++;
+        }
+    }
+
+    diff.removed = [...previous.values()].map(summarize);
+    return diff;
+}
+
+function summarize(element: DesignElement): DiffElement {
+    return {
+        id: element.id,
+        type: element.$type,
+        name: element.name ?? null,
+        x: element.x,
+        y: element.y
+    };
+}
+
+/**
+ * Lists the properties that differ, ignoring position (reported as a move)
+ */
+function changedProperties(before: DesignElement, after: DesignElement): string[] {
+    const a = before as unknown as Record<string, unknown>;
+    const b = after as unknown as Record<string, unknown>;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    const changes: string[] = [];
+
+    for (const key of keys) {
+        if (key === 'x' || key === 'y') {
+            continue;
+        }
+        if (JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null)) {
+            changes.push(key);
+        }
+    }
+
+    return changes;
+}
@@ -0,0 +1,260 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * TypeScript model of the design document produced by the Blazor editor
+ * (`DesignDocument` / `DesignElement` in KazoDesign.Editor/Models).
+ *
+ * The editor serializes with camelCase property names and a `$type`
+ * discriminator on elements, which must be the first property of each element.
+ */
+
+export type ElementType = 'rectangle' | 'circle' | 'line' | 'text' | 'image';
+
+export const ELEMENT_TYPES: readonly ElementType[] = ['rectangle', 'circle', 'line', 'text', 'image'];
+
+/**
+ * Semantic meaning of an element (`ElementMeaning` enum)
+ */
+export type ElementMeaning = 'None' | 'Control' | 'NavBar' | 'Toolbar' | 'Body' | 'Panel' | 'Footer' | 'View' | 'ImagePlaceholder';
+
+export const ELEMENT_MEANINGS: readonly ElementMeaning[] = [
+    'None', 'Control', 'NavBar', 'Toolbar', 'Body', 'Panel', 'Footer', 'View', 'ImagePlaceholder'
+];
+
+/**
+ * Text element kind (`TextType` enum)
+ */
+export type TextType = 'Paragraph' | 'H1' | 'H2' | 'H3' | 'H4' | 'H5' | 'Link';
+
+export const TEXT_TYPES: readonly TextType[] = ['Paragraph', 'H1', 'H2', 'H3', 'H4', 'H5', 'Link'];
+
+interface DesignElementBase {
+    $type: ElementType;
+    id: string;
+    x: number;
+    y: number;
+    rotation?: number;
+    name?: string | null;
+    description?: string | null;
+    meaning?: ElementMeaning | null;
+    /** Name of the View element this element is nested in */
+    parent?: string | null;
+}
+
+export interface RectangleElement extends DesignElementBase {
+    $type: 'rectangle';
+    width: number;
+    height: number;
+    fill?: string;
+    stroke?: string;
+    strokeWidth?: number;
+    cornerRadius?: number;
+}
+
+export interface CircleElement extends DesignElementBase {
+    $type: 'circle';
+    radius: number;
+    fill?: string;
+    stroke?: string;
+    strokeWidth?: number;
+}
+
+export interface LineElement extends DesignElementBase {
+    $type: 'line';
+    x2: number;
+    y2: number;
+    stroke?: string;
+    strokeWidth?: number;
+    strokeDashArray?: string | null;
+}
+
+export interface TextElement extends DesignElementBase {
+    $type: 'text';
+    content: string;
+    fontSize?: number;
+    fontFamily?: string;
+    fill?: string;
+    fontWeight?: string;
+    textType?: TextType;
+    linkUrl?: string | null;
+}
+
+export interface ImageElement extends DesignElementBase {
+    $type: 'image';
+    source: string;
+    width: number;
+    height: number;
+    originalWidth?: number;
+    originalHeight?: number;
+    preserveAspectRatio?: boolean;
+}
+
+export type DesignElement = RectangleElement | CircleElement | LineElement | TextElement | ImageElement;
+
+/**
+ * Version of the design format written by this extension; see `designSchema.ts`
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export interface DesignDocument {
+    /** Format version; absent in designs saved before versioning (version 0) */
+    schemaVersion?: number;
+    title: string;
+    description?: string | null;
+    canvasWidth: number;
+    canvasHeight: number;
+    backgroundColor: string;
+    /** Locked image under the main canvas elements (a data URI), e.g. a screenshot being annotated */
+    backgroundImage?: string | null;
+    elements: DesignElement[];
+    prompt?: string | null;
+    aiContext?: string | null;
+    createdAt?: string;
+    modifiedAt?: string;
+}
+
+/**
+ * Loosely-typed design as written by an AI assistant: elements use `type`
+ * (or `$type`), keys may be PascalCase, and most properties are optional
+ */
+export interface DesignInput {
+    title?: string;
+    description?: string;
+    prompt?: string;
+    canvasWidth?: number;
+    canvasHeight?: number;
+    backgroundColor?: string;
+    elements?: Record<string, unknown>[];
+}
+
+/**
+ * Builds a complete design document from AI input, filling in the editor's
+ * defaults (see the C# model classes) and generating element ids
+ */
+export function createDesignDocument(input: DesignInput): DesignDocument {
+    const now = new Date().toISOString();
+    const elements = (input.elements ?? []).map((raw, index) => createDesignElement(camelCaseKeys(raw), index));
+
+    return {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        title: input.title || 'Untitled Design',
+        description: input.description ?? null,
+        canvasWidth: input.canvasWidth ?? 800,
+        canvasHeight: input.canvasHeight ?? 600,
+        backgroundColor: input.backgroundColor ?? '#1e1e1e',
+        elements,
+        prompt: input.prompt ?? null,
+        aiContext: null,
+        createdAt: now,
+        modifiedAt: now
+    };
+}
+
+/**
+ * Serializes a design document the way the editor expects to load it
+ */
+export function serializeDesignDocument(document: DesignDocument): string {
+    return JSON.stringify(document, null, 2);
+}
+
+function createDesignElement(raw: Record<string, unknown>, index: number): DesignElement {
+    const type = (raw.$type ?? raw.type) as string | undefined;
+    if (!type || !ELEMENT_TYPES.includes(type as ElementType)) {
+        throw new Error(`Element ${index}: unknown type "${type}". Expected one of ${ELEMENT_TYPES.join(', ')}`);
+    }
+
+    // `$type` must come first for the editor's polymorphic deserializer
+    const base = {
+        id: str(raw.id) ?? randomUUID(),
+        x: num(raw.x) ?? 0,
+        y: num(raw.y) ?? 0,
+        rotation: num(raw.rotation) ?? 0,
+        name: str(raw.name) ?? null,
+        description: str(raw.description) ?? null,
+        meaning: toMeaning(raw.meaning),
+        parent: str(raw.parent) ?? null
+    };
+
+    switch (type as ElementType) {
+        case 'rectangle':
+            return {
+                $type: 'rectangle',
+                ...base,
+                width: num(raw.width) ?? 100,
+                height: num(raw.height) ?? 60,
+                fill: str(raw.fill) ?? '#4a90d9',
+                stroke: str(raw.stroke) ?? '#2d5a87',
+                strokeWidth: num(raw.strokeWidth) ?? 2,
+                cornerRadius: num(raw.cornerRadius) ?? 0
+            };
+        case 'circle':
+            return {
+                $type: 'circle',
+                ...base,
+                radius: num(raw.radius) ?? 50,
+                fill: str(raw.fill) ?? '#5cb85c',
+                stroke: str(raw.stroke) ?? '#3d8b3d',
+                strokeWidth: num(raw.strokeWidth) ?? 2
+            };
+        case 'line':
+            return {
+                $type: 'line',
+                ...base,
+                x2: num(raw.x2) ?? base.x + 100,
+                y2: num(raw.y2) ?? base.y + 100,
+                stroke: str(raw.stroke) ?? '#f0ad4e',
+                strokeWidth: num(raw.strokeWidth) ?? 3,
+                strokeDashArray: str(raw.strokeDashArray) ?? null
+            };
+        case 'text':
+            return {
+                $type: 'text',
+                ...base,
+                content: str(raw.content) ?? str(raw.text) ?? 'Text',
+                fontSize: num(raw.fontSize) ?? 16,
+                fontFamily: str(raw.fontFamily) ?? 'Arial, sans-serif',
+                fill: str(raw.fill) ?? '#e0e0e0',
+                fontWeight: str(raw.fontWeight) ?? 'normal',
+                textType: TEXT_TYPES.find(t => t.toLowerCase() === str(raw.textType)?.toLowerCase()) ?? 'Paragraph',
+                linkUrl: str(raw.linkUrl) ?? null
+            };
+        case 'image':
+            return {
+                $type: 'image',
+                ...base,
+                source: str(raw.source) ?? str(raw.href) ?? '',
+                width: num(raw.width) ?? 100,
+                height: num(raw.height) ?? 100,
+                originalWidth: num(raw.originalWidth) ?? 0,
+                originalHeight: num(raw.originalHeight) ?? 0,
+                preserveAspectRatio: typeof raw.preserveAspectRatio === 'boolean' ? raw.preserveAspectRatio : true
+            };
+    }
+}
+
+/**
+ * Matches a meaning case-insensitively (e.g. "navbar" → "NavBar")
+ */
+function toMeaning(value: unknown): ElementMeaning | null {
+    const text = str(value)?.toLowerCase();
+    return ELEMENT_MEANINGS.find(m => m.toLowerCase() === text) ?? null;
+}
+
+/**
+ * Lower-cases the first letter of every key, so `X`/`Meaning` become `x`/`meaning`
+ */
+function camelCaseKeys(raw: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        result[key.charAt(0).toLowerCase() + key.slice(1)] = value;
+    }
+    return result;
+}
+
+function num(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function str(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
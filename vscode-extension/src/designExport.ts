@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseDesignDocument } from './designSchema';
+import { DesignPersistence, DesignSaveResult } from './designPersistence';
+import { getDefaultSaveUri } from './designSaveLocation';
+import { createHtmlPreview, createPdf } from './exportFormats';
+import { exportDrawio } from './exporters/drawioExporter';
+import { exportExcalidraw } from './exporters/excalidrawExporter';
+
+/**
+ * Formats a design can be exported to besides SVG + Markdown
+ */
+export type ExportFormat = 'png' | 'pdf' | 'html' | 'excalidraw' | 'drawio';
+
+/**
+ * Image formats the editor renders
+ */
+export type ImageFormat = 'png' | 'jpeg';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+    { format: 'png', label: 'PNG', description: 'Image for docs and pull requests' },
+    { format: 'pdf', label: 'PDF', description: 'Single page document' },
+    { format: 'html', label: 'HTML', description: 'Self-contained preview with element tooltips' },
+    { format: 'excalidraw', label: 'Excalidraw', description: 'Editable scene; views become frames' },
+    { format: 'drawio', label: 'draw.io', description: 'Editable diagram; views become containers' }
+];
+
+/**
+ * A design rendered by the editor webview
+ */
+export interface RenderedDesign {
+    svg: string;
+    json: string;
+    title: string;
+    /** Size of the SVG, in CSS pixels */
+    width?: number;
+    height?: number;
+    /** Size of the rendered images, in pixels */
+    imageWidth?: number;
+    imageHeight?: number;
+    /** Base64 images, for the formats that were asked for */
+    png?: string;
+    jpeg?: string;
+}
+
+/**
+ * Renders the design of an editor at a scale, in the given image formats
+ */
+export type DesignRenderer = (scale: number, formats: ImageFormat[]) => Promise<RenderedDesign>;
+
+/**
+ * `kazoDesign.export.scale`: resolution of PNG and PDF exports relative to the canvas size
+ */
+export function getExportScale(): number {
+    const scale = vscode.workspace.getConfiguration('kazoDesign').get<number>('export.scale', 2);
+    return scale > 0 ? scale : 1;
+}
+
+/**
+ * Image formats the editor has to render for a set of export formats
+ */
+export function getImageFormats(formats: ExportFormat[]): ImageFormat[] {
+    const images: ImageFormat[] = [];
+    if (formats.includes('png')) {
+        images.push('png');
+    }
+    if (formats.includes('pdf')) {
+        // PDF pages embed a JPEG, which PDF supports without re-encoding
+        images.push('jpeg');
+    }
+    return images;
+}
+
+/**
+ * Writes a rendered design as `<base>.png`, `<base>.pdf`, `<base>.html`,
+ * `<base>.excalidraw` and/or `<base>.drawio`.
+ * Each file is written independently; failures are collected in the result.
+ */
+export async function writeDesignExports(
+    rendered: RenderedDesign,
+    baseUri: vscode.Uri,
+    formats: ExportFormat[],
+    persistence: DesignPersistence
+): Promise<Pick<DesignSaveResult, 'written' | 'failed'>> {
+    const result: Pick<DesignSaveResult, 'written' | 'failed'> = { written: [], failed: [] };
+
+    for (const format of formats) {
+        const uri = baseUri.with({ path: `${baseUri.path}.${format}` });
+        try {
+            await persistence.writeFile(uri, createExport(rendered, format));
+            result.written.push(uri);
+        } catch (error) {
+            result.failed.push({ uri, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return result;
+}
+
+function createExport(rendered: RenderedDesign, format: ExportFormat): string | Uint8Array {
+    switch (format) {
+        case 'png':
+            if (!rendered.png) {
+                throw new Error('The editor did not render a PNG image');
+            }
+            return Buffer.from(rendered.png, 'base64');
+        case 'pdf':
+            if (!rendered.jpeg || !rendered.width || !rendered.height || !rendered.imageWidth || !rendered.imageHeight) {
+                throw new Error('The editor did not render the PDF page');
+            }
+            return createPdf(Buffer.from(rendered.jpeg, 'base64'), rendered.imageWidth, rendered.imageHeight, rendered.width, rendered.height, rendered.title);
+        case 'html':
+            return createHtmlPreview(parseDesignDocument(rendered.json), rendered.svg);
+        case 'excalidraw':
+            return exportExcalidraw(parseDesignDocument(rendered.json));
+        case 'drawio':
+            return exportDrawio(parseDesignDocument(rendered.json));
+    }
+}
+
+/**
+ * `Kazo Design: Export Design`: picks the formats and scale, renders the
+ * design of the active editor and writes the files next to each other
+ */
+export async function exportDesignInteractively(render: DesignRenderer | undefined, persistence: DesignPersistence): Promise<void> {
+    if (!render) {
+        vscode.window.showWarningMessage('Open a design in the Kazo Design editor to export it.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        EXPORT_FORMATS.map(item => ({ ...item, picked: item.format === 'png' })),
+        { title: 'Export Design', placeHolder: 'Choose the formats to export', canPickMany: true }
+    );
+    if (!picked || picked.length === 0) {
+        return;
+    }
+    const formats = picked.map(item => item.format);
+
+    let scale = getExportScale();
+    if (formats.includes('png') || formats.includes('pdf')) {
+        const scales = [1, 2, 3, 4].map(value => ({
+            label: `${value}×`,
+            description: value === scale ? 'Default' : undefined,
+            value
+        }));
+        const pickedScale = await vscode.window.showQuickPick(scales, {
+            title: 'Export Design',
+            placeHolder: 'Resolution of the image, relative to the canvas size'
+        });
+        if (!pickedScale) {
+            return;
+        }
+        scale = pickedScale.value;
+    }
+
+    let rendered: RenderedDesign;
+    try {
+        rendered = await render(scale, getImageFormats(formats));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not render the design: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    const defaultUri = getDefaultSaveUri(rendered.title || 'design');
+    const saveUri = await vscode.window.showSaveDialog({
+        defaultUri: defaultUri?.with({ path: defaultUri.path.replace(/\.svg$/i, `.${formats[0]}`) }),
+        filters: Object.fromEntries(picked.map(item => [`${item.label} Files`, [item.format]])),
+        title: 'Export Design'
+    });
+    if (!saveUri) {
+        return;
+    }
+
+    const baseUri = saveUri.with({ path: saveUri.path.replace(/\.(png|pdf|html|excalidraw|drawio|svg)$/i, '') });
+    const result = await writeDesignExports(rendered, baseUri, formats, persistence);
+    const names = result.written.map(uri => path.posix.basename(uri.path)).join(', ');
+
+    if (result.failed.length > 0) {
+        const errors = result.failed.map(failure => `${path.posix.basename(failure.uri.path)}: ${failure.error}`).join('; ');
+        vscode.window.showErrorMessage(result.written.length > 0 ? `Exported ${names}, but ${errors}` : `Failed to export design: ${errors}`);
+        return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(`Exported ${names}`, 'Open');
+    if (choice === 'Open') {
+        await vscode.commands.executeCommand('vscode.open', result.written[0]);
+    }
+}
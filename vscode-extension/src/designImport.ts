@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createDesignDocument, serializeDesignDocument } from './designDocument';
+import { DESIGN_IMPORTERS, findDesignImporter } from './importers/designImporter';
+
+/**
+ * `Kazo Design: Import Design`: converts an Excalidraw, draw.io or SVG file
+ * (the given one, or one chosen by the user) and opens it in a new editor.
+ * `openDesign` receives the design JSON. Skipped or approximated constructs are reported.
+ */
+export async function importDesignInteractively(openDesign: (json: string) => void, log: (message: string) => void, uri?: vscode.Uri): Promise<void> {
+    let source = uri;
+    if (!source) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import',
+            title: 'Import Design',
+            filters: Object.fromEntries(DESIGN_IMPORTERS.map(importer => [importer.label, [...importer.extensions]]))
+        });
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        source = picked[0];
+    }
+
+    const fileName = path.posix.basename(source.path);
+    const importer = findDesignImporter(fileName);
+    if (!importer) {
+        vscode.window.showErrorMessage(`Cannot import ${fileName}: supported formats are ${DESIGN_IMPORTERS.map(i => i.label).join(', ')}.`);
+        return;
+    }
+
+    let json: string;
+    let warnings: string[];
+    try {
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(source));
+        const result = importer.import(content, fileName);
+        json = serializeDesignDocument(createDesignDocument(result.design));
+        warnings = result.warnings;
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not import ${fileName}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    openDesign(json);
+    log(`Imported ${fileName} (${importer.label})${warnings.length > 0 ? `:\n  ${warnings.join('\n  ')}` : ''}`);
+
+    if (warnings.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            `Imported ${fileName} with ${warnings.length} unsupported construct${warnings.length === 1 ? '' : 's'}.`,
+            'Show Details'
+        );
+        if (choice === 'Show Details') {
+            await vscode.window.showInformationMessage(`Import of ${fileName}`, { modal: true, detail: warnings.join('\n') });
+        }
+    }
+}
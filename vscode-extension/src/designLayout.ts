@@ -0,0 +1,205 @@
+import { DesignDocument, DesignElement } from './designDocument';
+
+/**
+ * Layout analysis of a design: recovers the structure the user drew
+ * (containment, view nesting, reading order and row/column/grid arrangement)
+ * from the flat element list. Used by the layout outline and the code generators.
+ */
+
+/**
+ * Axis-aligned bounds of an element on the canvas
+ */
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Element placed in the layout tree
+ */
+export interface LayoutNode {
+    element: DesignElement;
+    bounds: Bounds;
+    /** Elements drawn inside this element's bounds, in reading order */
+    children: LayoutNode[];
+    /** For a View, the elements drawn on the view's own canvas, in reading order */
+    viewContents?: LayoutNode[];
+}
+
+/**
+ * How sibling nodes are arranged
+ */
+export interface Arrangement {
+    kind: 'row' | 'column' | 'grid' | 'rows';
+    /** Nodes grouped into rows, top to bottom, each row left to right */
+    rows: LayoutNode[][];
+}
+
+/** Slack in pixels when deciding whether one element sits inside another */
+const CONTAINMENT_TOLERANCE = 2;
+
+/**
+ * Builds the layout tree of the root canvas. Elements are nested under the
+ * smallest shape containing them, and the contents of each View are attached
+ * to it as `viewContents`.
+ */
+export function buildLayoutTree(document: DesignDocument): LayoutNode[] {
+    return buildLayer(document, null, new Set());
+}
+
+/**
+ * Works out whether siblings form a row, a column, a regular grid or uneven rows.
+ * Returns undefined for fewer than two nodes.
+ */
+export function getArrangement(nodes: LayoutNode[]): Arrangement | undefined {
+    if (nodes.length < 2) {
+        return undefined;
+    }
+
+    const rows = groupRows(nodes);
+    if (rows.length === 1) {
+        return { kind: 'row', rows };
+    }
+    if (rows.every(row => row.length === 1)) {
+        return { kind: 'column', rows };
+    }
+    if (rows.every(row => row.length === rows[0].length)) {
+        return { kind: 'grid', rows };
+    }
+    return { kind: 'rows', rows };
+}
+
+/**
+ * Approximates an element's bounds; text width is estimated from its length and font size
+ */
+export function getBounds(element: DesignElement): Bounds {
+    switch (element.$type) {
+        case 'rectangle':
+        case 'image':
+            return { x: element.x, y: element.y, width: element.width, height: element.height };
+        case 'circle':
+            return { x: element.x - element.radius, y: element.y - element.radius, width: element.radius * 2, height: element.radius * 2 };
+        case 'line':
+            return {
+                x: Math.min(element.x, element.x2),
+                y: Math.min(element.y, element.y2),
+                width: Math.abs(element.x2 - element.x),
+                height: Math.abs(element.y2 - element.y)
+            };
+        case 'text': {
+            // Text is positioned at its baseline
+            const fontSize = element.fontSize ?? 16;
+            return { x: element.x, y: element.y - fontSize, width: element.content.length * fontSize * 0.55, height: fontSize * 1.2 };
+        }
+    }
+}
+
+/**
+ * Builds the tree of the elements drawn at one view level (the root canvas when `view` is null)
+ */
+function buildLayer(document: DesignDocument, view: string | null, visited: Set<string>): LayoutNode[] {
+    const elements = document.elements.filter(element => (element.parent || null) === view
+        || (view === null && element.parent && !isView(document, element.parent)));
+    const roots = buildContainmentTree(elements);
+
+    // Guard against views that nest themselves
+    forEachNode(roots, node => {
+        const name = node.element.name;
+        if (node.element.meaning === 'View' && name && !visited.has(name)) {
+            visited.add(name);
+            if (document.elements.some(element => element.parent === name)) {
+                node.viewContents = buildLayer(document, name, visited);
+            }
+        }
+    });
+
+    return roots;
+}
+
+function isView(document: DesignDocument, name: string): boolean {
+    return document.elements.some(element => element.meaning === 'View' && element.name === name);
+}
+
+function forEachNode(nodes: LayoutNode[], callback: (node: LayoutNode) => void): void {
+    for (const node of nodes) {
+        callback(node);
+        forEachNode(node.children, callback);
+    }
+}
+
+/**
+ * Nests each element under the smallest shape whose bounds contain it
+ */
+function buildContainmentTree(elements: DesignElement[]): LayoutNode[] {
+    const nodes: LayoutNode[] = elements
+        .map(element => ({ element, bounds: getBounds(element), children: [] }))
+        .sort((a, b) => area(b.bounds) - area(a.bounds));
+
+    const roots: LayoutNode[] = [];
+    const containers: LayoutNode[] = [];
+    for (const node of nodes) {
+        // Containers are visited largest first, so the last match is the smallest
+        const container = containers.filter(candidate => contains(candidate.bounds, node.bounds)).pop();
+        (container ? container.children : roots).push(node);
+        if (canContain(node.element)) {
+            containers.push(node);
+        }
+    }
+
+    sortReadingOrder(roots);
+    return roots;
+}
+
+/**
+ * Orders nodes top to bottom by row, then left to right within each row
+ */
+function sortReadingOrder(nodes: LayoutNode[]): void {
+    const ordered = groupRows(nodes).flat();
+    nodes.splice(0, nodes.length, ...ordered);
+    for (const node of nodes) {
+        sortReadingOrder(node.children);
+    }
+}
+
+/**
+ * Groups nodes into rows, top to bottom, each row sorted left to right
+ */
+function groupRows(nodes: LayoutNode[]): LayoutNode[][] {
+    const rows: LayoutNode[][] = [];
+    for (const node of [...nodes].sort((a, b) => a.bounds.y - b.bounds.y)) {
+        const row = rows.find(candidate => sameRow(candidate[0].bounds, node.bounds));
+        if (row) {
+            row.push(node);
+        } else {
+            rows.push([node]);
+        }
+    }
+    return rows.map(row => row.sort((a, b) => a.bounds.x - b.bounds.x));
+}
+
+function canContain(element: DesignElement): boolean {
+    return element.$type === 'rectangle' || element.$type === 'circle' || element.$type === 'image';
+}
+
+function contains(outer: Bounds, inner: Bounds): boolean {
+    return inner.x >= outer.x - CONTAINMENT_TOLERANCE
+        && inner.y >= outer.y - CONTAINMENT_TOLERANCE
+        && inner.x + inner.width <= outer.x + outer.width + CONTAINMENT_TOLERANCE
+        && inner.y + inner.height <= outer.y + outer.height + CONTAINMENT_TOLERANCE
+        && area(inner) < area(outer);
+}
+
+/**
+ * Two elements share a row when their vertical centres fall within each other's extent
+ */
+function sameRow(a: Bounds, b: Bounds): boolean {
+    const centerA = a.y + a.height / 2;
+    const centerB = b.y + b.height / 2;
+    return (centerA >= b.y && centerA <= b.y + b.height) || (centerB >= a.y && centerB <= a.y + a.height);
+}
+
+function area(bounds: Bounds): number {
+    return bounds.width * bounds.height;
+}
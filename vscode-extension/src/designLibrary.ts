@@ -0,0 +1,345 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseDesignMarkdown } from './designMarkdown';
+import { exists } from './workspaceFiles';
+
+/** Markdown files that may be designs saved as SVG + Markdown */
+const MARKDOWN_GLOB = '**/*.md';
+/** Design files opened by the custom editor */
+const DESIGN_FILE_GLOB = '**/*.{kazo,kazo.json}';
+const EXCLUDE_GLOB = '**/{node_modules,.git}/**';
+/** Upper bound of files scanned per pattern, to keep large workspaces responsive */
+const MAX_SCANNED_FILES = 2000;
+/** Delay before the tree updates after files change, so a burst of changes (git checkout, save of an SVG + Markdown pair) is read once */
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * A design found in the workspace
+ */
+export interface LibraryDesign {
+    /** The companion `.md` of an SVG + Markdown pair, or the `.kazo` / `.kazo.json` file */
+    uri: vscode.Uri;
+    kind: 'markdown' | 'designFile';
+    /** The `.svg` of an SVG + Markdown pair, used as thumbnail */
+    svgUri?: vscode.Uri;
+    title: string;
+    description?: string;
+    prompt?: string;
+}
+
+/**
+ * Tree view of the designs in the workspace ("Kazo Designs" sidebar)
+ */
+export class DesignLibraryProvider implements vscode.TreeDataProvider<LibraryDesign>, vscode.Disposable {
+    public static readonly viewId = 'kazoDesign.designs';
+
+    private readonly changeEmitter = new vscode.EventEmitter<LibraryDesign | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+    /** Designs found by the last scan, keyed by URI; undefined until the tree is first shown or after a refresh */
+    private designs: Promise<Map<string, LibraryDesign>> | undefined;
+    /** Files changed since the designs were last read, keyed by URI */
+    private readonly changedFiles = new Map<string, vscode.Uri>();
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    constructor() {
+        for (const glob of [MARKDOWN_GLOB, '**/*.svg', DESIGN_FILE_GLOB]) {
+            const watcher = vscode.workspace.createFileSystemWatcher(glob);
+            watcher.onDidCreate(uri => this.queueChange(uri));
+            watcher.onDidChange(uri => this.queueChange(uri));
+            watcher.onDidDelete(uri => this.queueChange(uri));
+            this.disposables.push(watcher);
+        }
+    }
+
+    /**
+     * Scans the workspace again for designs
+     */
+    public refresh(): void {
+        this.designs = undefined;
+        this.changedFiles.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Remembers a changed file and updates the tree once changes settle; only changed files are read again
+     */
+    private queueChange(uri: vscode.Uri): void {
+        if (/\/(node_modules|\.git)\//.test(uri.path)) {
+            return;
+        }
+        this.changedFiles.set(uri.toString(), uri);
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.changeEmitter.fire(undefined), REFRESH_DELAY_MS);
+    }
+
+    public getTreeItem(design: LibraryDesign): vscode.TreeItem {
+        const item = new vscode.TreeItem(design.title, vscode.TreeItemCollapsibleState.None);
+        item.resourceUri = design.uri;
+        item.description = vscode.workspace.asRelativePath(design.uri);
+        item.iconPath = design.svgUri ?? new vscode.ThemeIcon('layout');
+        item.contextValue = design.kind === 'markdown' ? 'kazoDesign.markdownDesign' : 'kazoDesign.designFile';
+        item.command = {
+            command: 'kazoDesign.library.open',
+            title: 'Open Design',
+            arguments: [design]
+        };
+
+        const tooltip = new vscode.MarkdownString(`**${design.title}**\n\n`);
+        if (design.svgUri) {
+            tooltip.appendMarkdown(`![Thumbnail](${design.svgUri.toString()}|width=240)\n\n`);
+        }
+        if (design.description) {
+            tooltip.appendMarkdown(`${design.description}\n\n`);
+        }
+        if (design.prompt) {
+            tooltip.appendMarkdown('*AI prompt:* ');
+            tooltip.appendText(design.prompt);
+        }
+        item.tooltip = tooltip;
+
+        return item;
+    }
+
+    public async getChildren(element?: LibraryDesign): Promise<LibraryDesign[]> {
+        if (element || !vscode.workspace.workspaceFolders) {
+            return [];
+        }
+
+        if (!this.designs) {
+            this.changedFiles.clear();
+            this.designs = scanDesigns();
+        } else if (this.changedFiles.size > 0) {
+            const changed = [...this.changedFiles.values()];
+            this.changedFiles.clear();
+            this.designs = this.designs.then(designs => updateDesigns(designs, changed));
+        }
+
+        return [...(await this.designs).values()].sort((a, b) => a.title.localeCompare(b.title));
+    }
+
+    public dispose(): void {
+        clearTimeout(this.refreshTimer);
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+}
+
+/**
+ * Finds and reads every design in the workspace
+ */
+async function scanDesigns(): Promise<Map<string, LibraryDesign>> {
+    const [markdownFiles, designFiles] = await Promise.all([
+        vscode.workspace.findFiles(MARKDOWN_GLOB, EXCLUDE_GLOB, MAX_SCANNED_FILES),
+        vscode.workspace.findFiles(DESIGN_FILE_GLOB, EXCLUDE_GLOB, MAX_SCANNED_FILES)
+    ]);
+
+    const designs = await Promise.all([
+        ...markdownFiles.map(uri => readMarkdownDesign(uri)),
+        ...designFiles.map(uri => readDesignFile(uri))
+    ]);
+
+    return new Map(designs
+        .filter((design): design is LibraryDesign => design !== undefined)
+        .map(design => [design.uri.toString(), design]));
+}
+
+/**
+ * Reads changed files again. A changed SVG updates the thumbnail of its listed
+ * SVG + Markdown pair; deleted files and files that are no longer designs are removed.
+ */
+async function updateDesigns(designs: Map<string, LibraryDesign>, changed: vscode.Uri[]): Promise<Map<string, LibraryDesign>> {
+    const toRead = new Map<string, vscode.Uri>();
+    for (const uri of changed) {
+        if (/\.svg$/i.test(uri.path)) {
+            const markdownUri = uri.with({ path: uri.path.replace(/\.svg$/i, '.md') });
+            if (designs.has(markdownUri.toString())) {
+                toRead.set(markdownUri.toString(), markdownUri);
+            }
+        } else {
+            toRead.set(uri.toString(), uri);
+        }
+    }
+
+    await Promise.all([...toRead].map(async ([key, uri]) => {
+        let design: LibraryDesign | undefined;
+        if (/\.md$/i.test(uri.path)) {
+            design = await readMarkdownDesign(uri);
+        } else if (await exists(uri)) {
+            design = await readDesignFile(uri);
+        }
+
+        if (design) {
+            designs.set(key, design);
+        } else {
+            designs.delete(key);
+        }
+    }));
+    return designs;
+}
+
+/**
+ * Reads a Markdown file, returning undefined when it isn't a saved design
+ */
+async function readMarkdownDesign(uri: vscode.Uri): Promise<LibraryDesign | undefined> {
+    try {
+        const parsed = parseDesignMarkdown(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+        if (!parsed) {
+            return undefined;
+        }
+
+        const svgUri = uri.with({ path: uri.path.replace(/\.md$/i, '.svg') });
+        return {
+            uri,
+            kind: 'markdown',
+            svgUri: await exists(svgUri) ? svgUri : undefined,
+            title: parsed.title || baseName(uri),
+            description: parsed.description,
+            prompt: parsed.prompt
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+async function readDesignFile(uri: vscode.Uri): Promise<LibraryDesign | undefined> {
+    try {
+        const design = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))) as Record<string, unknown>;
+        return {
+            uri,
+            kind: 'designFile',
+            title: typeof design.title === 'string' && design.title ? design.title : baseName(uri),
+            description: typeof design.description === 'string' ? design.description : undefined,
+            prompt: typeof design.prompt === 'string' ? design.prompt : undefined
+        };
+    } catch {
+        // Unsaved or malformed design files are still listed so they can be opened and fixed
+        return { uri, kind: 'designFile', title: baseName(uri) };
+    }
+}
+
+/**
+ * Opens a design in the Kazo Design editor
+ */
+export async function openLibraryDesign(design: LibraryDesign, customEditorViewType: string): Promise<void> {
+    if (design.kind === 'markdown') {
+        await vscode.commands.executeCommand('kazoDesign.openSavedDesign', design.uri);
+    } else {
+        await vscode.commands.executeCommand('vscode.openWith', design.uri, customEditorViewType);
+    }
+}
+
+/**
+ * Copies a design next to the original as "<name> copy"
+ */
+export async function duplicateLibraryDesign(design: LibraryDesign): Promise<void> {
+    const name = baseName(design.uri);
+    let copyName = `${name} copy`;
+    for (let index = 2; await exists(withBaseName(design.uri, copyName)); index++) {
+        copyName = `${name} copy ${index}`;
+    }
+    await copyOrMove(design, copyName, 'copy');
+}
+
+/**
+ * Renames a design; both files of an SVG + Markdown pair are renamed together
+ */
+export async function renameLibraryDesign(design: LibraryDesign): Promise<void> {
+    const name = baseName(design.uri);
+    const newName = await vscode.window.showInputBox({
+        title: 'Rename Design',
+        prompt: 'New file name (without extension)',
+        value: name,
+        validateInput: value => {
+            if (!value.trim()) {
+                return 'Enter a name';
+            }
+            return /[\\/:*?"<>|]/.test(value) ? 'The name contains characters that are not allowed in file names' : undefined;
+        }
+    });
+    if (!newName || newName === name) {
+        return;
+    }
+
+    if (await exists(withBaseName(design.uri, newName))) {
+        vscode.window.showErrorMessage(`A design named "${newName}" already exists in this folder.`);
+        return;
+    }
+    await copyOrMove(design, newName, 'move');
+}
+
+/**
+ * Moves a design to the trash after confirmation
+ */
+export async function deleteLibraryDesign(design: LibraryDesign): Promise<void> {
+    const files = design.svgUri ? [design.uri, design.svgUri] : [design.uri];
+    const choice = await vscode.window.showWarningMessage(
+        `Delete design "${design.title}"?`,
+        { modal: true, detail: `${files.map(file => path.basename(file.path)).join(' and ')} will be moved to the trash.` },
+        'Delete'
+    );
+    if (choice !== 'Delete') {
+        return;
+    }
+
+    for (const file of files) {
+        await vscode.workspace.fs.delete(file, { useTrash: true });
+    }
+}
+
+/**
+ * Opens the chat with the design attached, so the AI gets its JSON, prompt and image
+ */
+export async function attachLibraryDesignToChat(design: LibraryDesign): Promise<void> {
+    const attachFiles = design.svgUri ? [design.uri, design.svgUri] : [design.uri];
+    await vscode.commands.executeCommand('workbench.action.chat.open', {
+        query: '',
+        isPartialQuery: true,
+        attachFiles
+    });
+}
+
+/**
+ * Copies or moves a design's files to a new base name in the same folder.
+ * The Markdown's image link is updated to the new SVG name.
+ */
+async function copyOrMove(design: LibraryDesign, newName: string, mode: 'copy' | 'move'): Promise<void> {
+    const target = withBaseName(design.uri, newName);
+
+    if (design.svgUri) {
+        const svgTarget = withBaseName(design.svgUri, newName);
+        if (mode === 'copy') {
+            await vscode.workspace.fs.copy(design.svgUri, svgTarget);
+        } else {
+            await vscode.workspace.fs.rename(design.svgUri, svgTarget);
+        }
+    }
+
+    if (design.kind === 'markdown') {
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(design.uri));
+        const oldSvgName = `${baseName(design.uri)}.svg`;
+        const updated = content.replace(`](${oldSvgName})`, `](${newName}.svg)`);
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(updated));
+        if (mode === 'move') {
+            await vscode.workspace.fs.delete(design.uri);
+        }
+    } else if (mode === 'copy') {
+        await vscode.workspace.fs.copy(design.uri, target);
+    } else {
+        await vscode.workspace.fs.rename(design.uri, target);
+    }
+}
+
+/**
+ * File name without the design extension (`.md`, `.svg`, `.kazo`, `.kazo.json`)
+ */
+function baseName(uri: vscode.Uri): string {
+    return path.basename(uri.path).replace(/\.(kazo\.json|kazo|md|svg)$/i, '');
+}
+
+function withBaseName(uri: vscode.Uri, name: string): vscode.Uri {
+    const extension = /\.kazo\.json$/i.test(uri.path) ? '.kazo.json' : path.extname(uri.path);
+    return vscode.Uri.joinPath(uri, '..', `${name}${extension}`);
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Design data recovered from a companion markdown file
+ */
+export interface ParsedDesignMarkdown {
+    title?: string;
+    description?: string;
+    prompt?: string;
+    json: string;
+}
+
+const TECHNICAL_DATA_HEADING = '## Technical Data (JSON)';
+
+/**
+ * Returns the companion markdown file for a saved design.
+ * Designs are saved as `<name>.svg` + `<name>.md`; given either file, the `.md` is returned.
+ */
+export function getCompanionMarkdownUri(uri: vscode.Uri): vscode.Uri {
+    if (/\.svg$/i.test(uri.path)) {
+        return uri.with({ path: uri.path.replace(/\.svg$/i, '.md') });
+    }
+    return uri;
+}
+
+/**
+ * Creates the companion markdown of a design saved as `<name>.svg` + `<name>.md`:
+ * the title, the SVG image, the description and AI prompt, and the design JSON
+ */
+export function createDesignMarkdown(title: string, svgFileName: string, prompt: string | undefined, json: string, description?: string): string {
+    let content = `# ${title || 'Untitled Design'}\n\n`;
+    content += `![Design](${svgFileName})\n\n`;
+
+    if (description) {
+        content += `## Description\n\n${description}\n\n`;
+    }
+
+    if (prompt) {
+        content += `## AI Prompt\n\n${prompt}\n\n`;
+    }
+
+    content += `${TECHNICAL_DATA_HEADING}\n\n`;
+    content += '```json\n';
+    content += json;
+    content += '\n```\n';
+
+    return content;
+}
+
+/**
+ * Reads the design JSON of a saved design: either file of an SVG + Markdown pair,
+ * or a `.kazo` / `.kazo.json` design file. Throws when no design data is found.
+ */
+export async function readSavedDesign(uri: vscode.Uri): Promise<string> {
+    if (/\.kazo(\.json)?$/i.test(uri.path)) {
+        return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    }
+
+    const mdUri = getCompanionMarkdownUri(uri);
+    const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(mdUri));
+    const design = parseDesignMarkdown(content);
+    if (!design) {
+        throw new Error(`No Kazo design data found in ${path.basename(mdUri.path)}`);
+    }
+    return design.json;
+}
+
+/**
+ * Parses markdown written by `createDesignMarkdown` back into design data.
+ * Returns undefined when the file has no valid ```json block.
+ */
+export function parseDesignMarkdown(content: string): ParsedDesignMarkdown | undefined {
+    const text = content.replace(/\r\n/g, '\n');
+
+    // Prefer the block under the technical data heading, fall back to the first json fence
+    const headingIndex = text.indexOf(TECHNICAL_DATA_HEADING);
+    const searchFrom = headingIndex >= 0 ? text.slice(headingIndex) : text;
+    const match = /```json\n([\s\S]*?)\n```/.exec(searchFrom);
+    if (!match) {
+        return undefined;
+    }
+
+    const json = match[1];
+    try {
+        JSON.parse(json);
+    } catch {
+        return undefined;
+    }
+
+    const titleMatch = /^# (.+)$/m.exec(text);
+
+    return {
+        title: titleMatch?.[1].trim(),
+        description: getSection(text, 'Description'),
+        prompt: getSection(text, 'AI Prompt'),
+        json
+    };
+}
+
+/**
+ * Returns the body of a `## <name>` section, up to the next level-2 heading
+ */
+function getSection(text: string, name: string): string | undefined {
+    const start = text.indexOf(`\n## ${name}\n`);
+    if (start < 0) {
+        return undefined;
+    }
+    const bodyStart = start + name.length + 5;
+    const end = text.indexOf('\n## ', bodyStart);
+    const body = text.slice(bodyStart, end < 0 ? undefined : end).trim();
+    return body.length > 0 ? body : undefined;
+}
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { createDesignMarkdown } from './designMarkdown';
+
+/**
+ * Content of a design saved as `<name>.svg` + `<name>.md`
+ */
+export interface DesignContent {
+    svg: string;
+    json: string;
+    title: string;
+    description?: string;
+    prompt?: string;
+}
+
+/**
+ * Outcome of saving a design. Each file is written independently, so one may
+ * succeed while the other fails.
+ */
+export interface DesignSaveResult {
+    svgUri: vscode.Uri;
+    markdownUri: vscode.Uri;
+    written: vscode.Uri[];
+    failed: { uri: vscode.Uri; error: string }[];
+}
+
+/**
+ * Saves designs as SVG + Markdown through a `vscode.FileSystem`, so local,
+ * remote (SSH, WSL, Codespaces) and virtual workspaces all work.
+ *
+ * Files are written to a temporary sibling and renamed into place, so an
+ * interrupted save never leaves a truncated design behind. `untitled:` targets
+ * are opened as unsaved documents instead.
+ */
+export class DesignPersistence {
+    constructor(private readonly fileSystem: vscode.FileSystem = vscode.workspace.fs) { }
+
+    /**
+     * Saves a design next to `target`, which may name the `.svg` file or the
+     * base name without extension
+     */
+    public async saveDesign(target: vscode.Uri, design: DesignContent): Promise<DesignSaveResult> {
+        const basePath = target.path.replace(/\.(svg|md)$/i, '');
+        const svgUri = target.with({ path: `${basePath}.svg` });
+        const markdownUri = target.with({ path: `${basePath}.md` });
+        const markdown = createDesignMarkdown(design.title, path.posix.basename(svgUri.path), design.prompt, design.json, design.description);
+
+        const result: DesignSaveResult = { svgUri, markdownUri, written: [], failed: [] };
+        for (const [uri, content] of [[svgUri, design.svg], [markdownUri, markdown]] as const) {
+            try {
+                await this.writeFile(uri, content);
+                result.written.push(uri);
+            } catch (error) {
+                result.failed.push({ uri, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Writes a file atomically, creating missing folders. Text is written as UTF-8.
+     */
+    public async writeFile(uri: vscode.Uri, content: string | Uint8Array): Promise<void> {
+        if (uri.scheme === 'untitled' && typeof content === 'string') {
+            await this.writeUntitled(uri, content);
+            return;
+        }
+
+        const folder = vscode.Uri.joinPath(uri, '..');
+        await this.fileSystem.createDirectory(folder);
+
+        const temporary = vscode.Uri.joinPath(folder, `.${path.posix.basename(uri.path)}.${randomUUID().slice(0, 8)}.tmp`);
+        await this.fileSystem.writeFile(temporary, typeof content === 'string' ? new TextEncoder().encode(content) : content);
+        try {
+            await this.fileSystem.rename(temporary, uri, { overwrite: true });
+        } catch (error) {
+            await Promise.resolve(this.fileSystem.delete(temporary)).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    /**
+     * Fills an untitled document, which the user saves later
+     */
+    private async writeUntitled(uri: vscode.Uri, content: string): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, new vscode.Range(0, 0, document.lineCount, 0), content);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error(`Could not write to ${uri.toString()}`);
+        }
+    }
+}
+
+/**
+ * Shows the outcome of a save to the user. Returns true when every file was written.
+ */
+export function reportDesignSaveResult(result: DesignSaveResult, what: string): boolean {
+    const name = (uri: vscode.Uri) => path.posix.basename(uri.path);
+
+    if (result.failed.length === 0) {
+        const location = vscode.workspace.asRelativePath(result.svgUri.with({ path: result.svgUri.path.replace(/\.svg$/i, '') }));
+        vscode.window.showInformationMessage(`${what} saved to ${location}`);
+        return true;
+    }
+
+    const errors = result.failed.map(failure => `${name(failure.uri)}: ${failure.error}`).join('; ');
+    if (result.written.length === 0) {
+        vscode.window.showErrorMessage(`Failed to save ${what.toLowerCase()}: ${errors}`);
+    } else {
+        vscode.window.showWarningMessage(
+            `${what} partially saved: ${result.written.map(name).join(', ')} written, but ${errors}`
+        );
+    }
+    return false;
+}
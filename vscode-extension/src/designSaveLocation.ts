@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exists, resolveWorkspacePath } from './workspaceFiles';
+
+/**
+ * Whether a confirmed sketch is saved before it is returned to the AI
+ */
+export type ConfirmSavePolicy = 'ask' | 'always' | 'never';
+
+/**
+ * What to do when a design with the same file name already exists
+ */
+export type OverwritePolicy = 'ask' | 'overwrite' | 'increment';
+
+/**
+ * `kazoDesign.save.*` settings
+ */
+export interface DesignSaveSettings {
+    /** Folder designs are saved to; relative paths are resolved against the workspace root */
+    folder: string;
+    /** File name without extension; supports `{title}`, `{slug}`, `{date}` and `{time}` */
+    fileNameTemplate: string;
+    onConfirm: ConfirmSavePolicy;
+    overwrite: OverwritePolicy;
+}
+
+export function getDesignSaveSettings(): DesignSaveSettings {
+    const config = vscode.workspace.getConfiguration('kazoDesign.save');
+    return {
+        folder: config.get<string>('folder', '').trim(),
+        fileNameTemplate: config.get<string>('fileNameTemplate', '{slug}').trim() || '{slug}',
+        onConfirm: config.get<ConfirmSavePolicy>('onConfirm', 'ask'),
+        overwrite: config.get<OverwritePolicy>('overwrite', 'ask')
+    };
+}
+
+/**
+ * Lower-case, dash-separated form of a title, e.g. `Login Page` → `login-page`
+ */
+export function toSlug(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Expands a file name template for a design. `/` in the template creates subfolders.
+ */
+export function formatDesignFileName(template: string, title: string, date: Date = new Date()): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const values: Record<string, string> = {
+        title: title.replace(/[\\/:*?"<>|]/g, '').trim(),
+        slug: toSlug(title),
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    };
+
+    const name = template
+        .replace(/\{(title|slug|date|time)\}/g, (_match, key: string) => values[key])
+        .replace(/[\\:*?"<>|]/g, '')
+        .split('/')
+        .map(segment => segment.trim())
+        .filter(segment => segment.length > 0 && segment !== '.' && segment !== '..')
+        .join('/');
+    return name || 'design';
+}
+
+/**
+ * The `.svg` file a design is saved to by default, or undefined when no folder
+ * can be resolved (relative folder without an open workspace)
+ */
+export function getDefaultSaveUri(title: string, settings: DesignSaveSettings = getDesignSaveSettings()): vscode.Uri | undefined {
+    const fileName = `${formatDesignFileName(settings.fileNameTemplate, title)}.svg`;
+    const folder = settings.folder || '.';
+    if (!path.isAbsolute(folder) && !vscode.workspace.workspaceFolders?.length) {
+        return undefined;
+    }
+    return vscode.Uri.joinPath(resolveWorkspacePath(folder), fileName);
+}
+
+/**
+ * Applies the overwrite policy to a save location. Returns the `.svg` file to
+ * write (the original, or a numbered variant), or undefined when the user cancels.
+ */
+export async function resolveOverwrite(svgUri: vscode.Uri, policy: OverwritePolicy): Promise<vscode.Uri | undefined> {
+    if (!await designExists(svgUri) || policy === 'overwrite') {
+        return svgUri;
+    }
+
+    if (policy === 'ask') {
+        const choice = await vscode.window.showWarningMessage(
+            `A design named "${path.basename(svgUri.path, '.svg')}" already exists.`,
+            { modal: true, detail: vscode.workspace.asRelativePath(svgUri) },
+            'Overwrite',
+            'Keep Both'
+        );
+        if (choice === 'Overwrite') {
+            return svgUri;
+        }
+        if (choice !== 'Keep Both') {
+            return undefined;
+        }
+    }
+
+    const baseName = path.basename(svgUri.path, '.svg');
+    for (let index = 2; ; index++) {
+        const candidate = vscode.Uri.joinPath(svgUri, '..', `${baseName}-${index}.svg`);
+        if (!await designExists(candidate)) {
+            return candidate;
+        }
+    }
+}
+
+/**
+ * True when either file of the SVG + Markdown pair exists
+ */
+async function designExists(svgUri: vscode.Uri): Promise<boolean> {
+    const mdUri = svgUri.with({ path: svgUri.path.replace(/\.svg$/i, '.md') });
+    return await exists(svgUri) || await exists(mdUri);
+}
@@ -0,0 +1,266 @@
+import { randomUUID } from 'crypto';
+import {
+    CURRENT_SCHEMA_VERSION,
+    DesignDocument,
+    ELEMENT_MEANINGS,
+    ELEMENT_TYPES,
+    ElementType,
+    TEXT_TYPES,
+    serializeDesignDocument
+} from './designDocument';
+
+/**
+ * Validation and versioned migrations of design documents.
+ *
+ * Every document carries a `schemaVersion`; documents written before it was
+ * introduced are version 0. Migrations upgrade a document one version at a time,
+ * so archived designs keep loading when the format changes. The published
+ * JSON Schema lives in `schemas/kazo-design.schema.json`.
+ */
+
+/**
+ * Upgrades a raw document from `from` to `from + 1`
+ */
+interface Migration {
+    from: number;
+    migrate(document: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Result of checking design JSON
+ */
+export interface DesignCheckResult {
+    /** The migrated document, serialized the way the editor expects */
+    json: string;
+    document: DesignDocument;
+    /** Problems found by validation; empty when the design is valid */
+    errors: string[];
+    /** Schema version the JSON had before migration, when it was migrated */
+    migratedFrom?: number;
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        // Version 0: designs from before schemaVersion existed. Element keys may be
+        // PascalCase, the discriminator may be `type`, enums may be numeric and ids may be missing.
+        from: 0,
+        migrate: document => {
+            const migrated = camelCaseKeys(document);
+            const elements = Array.isArray(migrated.elements) ? migrated.elements : [];
+            migrated.elements = elements.map(element => migrateElementV0(element));
+            return migrated;
+        }
+    }
+];
+
+/**
+ * Upgrades a parsed document to the current schema version.
+ * Throws when the value is not an object or comes from a newer version.
+ */
+export function migrateDesign(value: unknown): { document: Record<string, unknown>; fromVersion: number } {
+    if (!isObject(value)) {
+        throw new Error('Design must be a JSON object');
+    }
+
+    const fromVersion = typeof value.schemaVersion === 'number' ? value.schemaVersion : 0;
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Design uses schema version ${fromVersion}, but this version of Kazo Design only supports up to ${CURRENT_SCHEMA_VERSION}. Please update the extension.`);
+    }
+
+    let document = value;
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+        const migration = MIGRATIONS.find(m => m.from === version);
+        if (!migration) {
+            throw new Error(`No migration from design schema version ${version}`);
+        }
+        document = migration.migrate(document);
+    }
+
+    // schemaVersion goes first so it is visible at the top of saved files
+    const { schemaVersion: _previous, ...rest } = document;
+    return { document: { schemaVersion: CURRENT_SCHEMA_VERSION, ...rest }, fromVersion };
+}
+
+/**
+ * Checks a document against the schema. Returns a list of problems, empty when valid.
+ */
+export function validateDesign(value: unknown): string[] {
+    const errors: string[] = [];
+    if (!isObject(value)) {
+        return ['Design must be a JSON object'];
+    }
+
+    expectType(errors, value, 'title', 'string', 'Design');
+    expectType(errors, value, 'backgroundColor', 'string', 'Design');
+    expectPositive(errors, value, 'canvasWidth', 'Design');
+    expectPositive(errors, value, 'canvasHeight', 'Design');
+    expectOptional(errors, value, 'description', 'string', 'Design');
+    expectOptional(errors, value, 'backgroundImage', 'string', 'Design');
+    expectOptional(errors, value, 'prompt', 'string', 'Design');
+    expectOptional(errors, value, 'aiContext', 'string', 'Design');
+
+    if (!Array.isArray(value.elements)) {
+        errors.push('Design: "elements" must be an array');
+        return errors;
+    }
+
+    const ids = new Set<string>();
+    value.elements.forEach((element: unknown, index: number) => {
+        const where = `Element ${index}`;
+        if (!isObject(element)) {
+            errors.push(`${where}: must be an object`);
+            return;
+        }
+        if (Object.keys(element)[0] !== '$type') {
+            errors.push(`${where}: "$type" must be the first property`);
+        }
+        const type = element.$type as ElementType;
+        if (!ELEMENT_TYPES.includes(type)) {
+            errors.push(`${where}: unknown $type "${String(element.$type)}"`);
+            return;
+        }
+
+        expectType(errors, element, 'id', 'string', where);
+        if (typeof element.id === 'string') {
+            if (ids.has(element.id)) {
+                errors.push(`${where}: duplicate id "${element.id}"`);
+            }
+            ids.add(element.id);
+        }
+        expectType(errors, element, 'x', 'number', where);
+        expectType(errors, element, 'y', 'number', where);
+        expectOptional(errors, element, 'name', 'string', where);
+        expectOptional(errors, element, 'parent', 'string', where);
+        expectEnum(errors, element, 'meaning', ELEMENT_MEANINGS, where);
+
+        switch (type) {
+            case 'rectangle':
+            case 'image':
+                expectPositive(errors, element, 'width', where, true);
+                expectPositive(errors, element, 'height', where, true);
+                if (type === 'image') {
+                    expectType(errors, element, 'source', 'string', where);
+                }
+                break;
+            case 'circle':
+                expectPositive(errors, element, 'radius', where, true);
+                break;
+            case 'line':
+                expectType(errors, element, 'x2', 'number', where);
+                expectType(errors, element, 'y2', 'number', where);
+                break;
+            case 'text':
+                expectType(errors, element, 'content', 'string', where);
+                expectEnum(errors, element, 'textType', TEXT_TYPES, where);
+                break;
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Parses, migrates and validates design JSON
+ */
+export function checkDesignJson(json: string): DesignCheckResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Design is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const { document, fromVersion } = migrateDesign(parsed);
+    const errors = validateDesign(document);
+    const migrated = fromVersion < CURRENT_SCHEMA_VERSION;
+
+    return {
+        json: migrated ? serializeDesignDocument(document as unknown as DesignDocument) : json,
+        document: document as unknown as DesignDocument,
+        errors,
+        migratedFrom: migrated ? fromVersion : undefined
+    };
+}
+
+/**
+ * Parses design JSON, upgrading older versions. Throws when the design is invalid.
+ */
+export function parseDesignDocument(json: string): DesignDocument {
+    const { document, errors } = checkDesignJson(json);
+    if (errors.length > 0) {
+        throw new Error(`Invalid design: ${errors.slice(0, 5).join('; ')}${errors.length > 5 ? ` (and ${errors.length - 5} more)` : ''}`);
+    }
+    return document;
+}
+
+/**
+ * Upgrades design JSON to the current version, leaving it unchanged when it
+ * cannot be parsed so the editor can report the problem
+ */
+export function upgradeDesignJson(json: string): string {
+    try {
+        return checkDesignJson(json).json;
+    } catch {
+        return json;
+    }
+}
+
+function migrateElementV0(value: unknown): unknown {
+    if (!isObject(value)) {
+        return value;
+    }
+    const { $type, type, ...rest } = camelCaseKeys(value);
+    const element: Record<string, unknown> = { $type: $type ?? type, ...rest };
+
+    if (typeof element.id !== 'string' || element.id.length === 0) {
+        element.id = randomUUID();
+    }
+    if (typeof element.meaning === 'number') {
+        element.meaning = ELEMENT_MEANINGS[element.meaning] ?? 'None';
+    }
+    if (typeof element.textType === 'number') {
+        element.textType = TEXT_TYPES[element.textType] ?? 'Paragraph';
+    }
+    return element;
+}
+
+/**
+ * Lower-cases the first letter of every key, so `X`/`Meaning` become `x`/`meaning`
+ */
+function camelCaseKeys(value: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key.startsWith('$') ? key : key.charAt(0).toLowerCase() + key.slice(1)] = item;
+    }
+    return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectType(errors: string[], value: Record<string, unknown>, key: string, type: 'string' | 'number', where: string): void {
+    if (typeof value[key] !== type || (type === 'number' && !Number.isFinite(value[key]))) {
+        errors.push(`${where}: "${key}" must be a ${type}`);
+    }
+}
+
+function expectOptional(errors: string[], value: Record<string, unknown>, key: string, type: 'string', where: string): void {
+    if (value[key] !== undefined && value[key] !== null && typeof value[key] !== type) {
+        errors.push(`${where}: "${key}" must be a ${type} or null`);
+    }
+}
+
+function expectPositive(errors: string[], value: Record<string, unknown>, key: string, where: string, allowZero = false): void {
+    const item = value[key];
+    if (typeof item !== 'number' || !Number.isFinite(item) || item < 0 || (!allowZero && item === 0)) {
+        errors.push(`${where}: "${key}" must be a ${allowZero ? 'non-negative' : 'positive'} number`);
+    }
+}
+
+function expectEnum(errors: string[], value: Record<string, unknown>, key: string, allowed: readonly string[], where: string): void {
+    const item = value[key];
+    if (item !== undefined && item !== null && !allowed.includes(item as string)) {
+        errors.push(`${where}: "${key}" must be one of ${allowed.join(', ')}`);
+    }
+}
@@ -0,0 +1,116 @@
+import { DesignDocument, DesignElement } from './designDocument';
+import { LayoutNode, buildLayoutTree, getArrangement } from './designLayout';
+
+/** Named elements listed in a summary before the rest are elided */
+const MAX_NAMED_ELEMENTS = 20;
+
+/**
+ * Describes a design in one or two short sentences, e.g.
+ * `"Login" (800×600): 5 elements — 3 rectangles, 2 texts. Named: Header (NavBar), Submit (Control).`
+ * Sent to the model alongside the sketch image instead of raw SVG markup.
+ */
+export function summarizeDesign(document: DesignDocument): string {
+    const counts = new Map<string, number>();
+    for (const element of document.elements) {
+        counts.set(element.$type, (counts.get(element.$type) ?? 0) + 1);
+    }
+
+    const total = document.elements.length;
+    let summary = `"${document.title}" (${document.canvasWidth}×${document.canvasHeight}): ${total} element${total === 1 ? '' : 's'}`;
+    if (counts.size > 0) {
+        summary += ' — ' + [...counts].map(([type, count]) => `${count} ${type}${count === 1 ? '' : 's'}`).join(', ');
+    }
+    summary += '.';
+
+    const named = document.elements.filter(element => element.name);
+    if (named.length > 0) {
+        const listed = named.slice(0, MAX_NAMED_ELEMENTS).map(describeNamed).join(', ');
+        const more = named.length > MAX_NAMED_ELEMENTS ? ` and ${named.length - MAX_NAMED_ELEMENTS} more` : '';
+        summary += ` Named: ${listed}${more}.`;
+    }
+
+    return summary;
+}
+
+function describeNamed(element: DesignElement): string {
+    return element.meaning && element.meaning !== 'None'
+        ? `${element.name} (${element.meaning})`
+        : `${element.name}`;
+}
+
+/**
+ * Turns a design into an indented, human-readable outline of its layout:
+ * elements are nested by bounding-box containment, listed in reading order
+ * (top to bottom, left to right), labelled by meaning, and annotated with the
+ * approximate arrangement of their children (row, column or grid). Elements of
+ * a View are drawn on that view's own canvas and are outlined under it.
+ */
+export function outlineDesign(document: DesignDocument): string {
+    const lines = [`Canvas "${document.title}" ${document.canvasWidth}×${document.canvasHeight}`];
+    writeNodes(buildLayoutTree(document), 1, lines);
+    return lines.join('\n');
+}
+
+function writeNodes(nodes: LayoutNode[], depth: number, lines: string[]): void {
+    describeArrangement(nodes, depth, lines);
+    for (const node of nodes) {
+        writeNode(node, depth, lines);
+    }
+}
+
+function writeNode(node: LayoutNode, depth: number, lines: string[]): void {
+    const { element, bounds } = node;
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}- ${describeElement(element)} @ ${Math.round(bounds.x)},${Math.round(bounds.y)} ${Math.round(bounds.width)}×${Math.round(bounds.height)}`);
+
+    writeNodes(node.children, depth + 1, lines);
+    if (node.viewContents) {
+        lines.push(`${indent}  (view contents)`);
+        writeNodes(node.viewContents, depth + 1, lines);
+    }
+}
+
+/**
+ * Adds a line describing how siblings are arranged, when there is a clear pattern
+ */
+function describeArrangement(nodes: LayoutNode[], depth: number, lines: string[]): void {
+    const arrangement = getArrangement(nodes);
+    if (!arrangement) {
+        return;
+    }
+
+    const { rows } = arrangement;
+    let text: string;
+    switch (arrangement.kind) {
+        case 'row':
+            text = `row of ${nodes.length}`;
+            break;
+        case 'column':
+            text = `column of ${nodes.length}`;
+            break;
+        case 'grid':
+            text = `grid of ${rows.length} rows × ${rows[0].length} columns`;
+            break;
+        case 'rows':
+            text = `${rows.length} rows (${rows.map(row => row.length).join(', ')} items)`;
+            break;
+    }
+    lines.push(`${'  '.repeat(depth)}[layout: ${text}]`);
+}
+
+function describeElement(element: DesignElement): string {
+    const role = element.meaning && element.meaning !== 'None' ? `${element.meaning} ` : '';
+    let label = `${role}${element.$type}`;
+
+    if (element.name) {
+        label += ` "${element.name}"`;
+    }
+    if (element.$type === 'text') {
+        const kind = element.textType && element.textType !== 'Paragraph' ? ` (${element.textType})` : '';
+        label += `: "${element.content}"${kind}`;
+    }
+    if (element.description) {
+        label += ` — ${element.description}`;
+    }
+    return label;
+}
@@ -0,0 +1,173 @@
+import { DesignDocument } from './designDocument';
+import { LayoutNode, buildLayoutTree } from './designLayout';
+import { escapeHtml } from './codegen/markup';
+
+/**
+ * Export formats built from a rendered design: a single-page PDF around a JPEG
+ * rendering and a self-contained HTML preview. Everything is produced locally;
+ * this module must not import `vscode`.
+ */
+
+/** CSS pixels to PDF points (96 dpi to 72 dpi) */
+const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * Builds a single-page PDF showing a JPEG image. The page has the design's
+ * size (`width` × `height` CSS pixels); the image may have a higher resolution.
+ */
+export function createPdf(jpeg: Uint8Array, imageWidth: number, imageHeight: number, width: number, height: number, title?: string): Uint8Array {
+    const pageWidth = formatNumber(width * POINTS_PER_PIXEL);
+    const pageHeight = formatNumber(height * POINTS_PER_PIXEL);
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+    const objects: (string | Uint8Array)[][] = [
+        ['<< /Type /Catalog /Pages 2 0 R >>'],
+        ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+        [
+            `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+            jpeg,
+            '\nendstream'
+        ],
+        [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+        [`<< /Title ${toPdfString(title || 'Kazo Design')} /Producer (Kazo Design) >>`]
+    ];
+
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+
+    // The binary comment marks the file as binary for transfer tools
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    objects.forEach((parts, index) => {
+        offsets.push(length);
+        write(`${index + 1} 0 obj\n`);
+        parts.forEach(write);
+        write('\nendobj\n');
+    });
+
+    const xref = length;
+    write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+        pdf.set(chunk, position);
+        position += chunk.length;
+    }
+    return pdf;
+}
+
+/**
+ * Builds a single HTML file showing the design's SVG, with a tooltip on each
+ * named or described element of the main canvas. Needs no network access.
+ */
+export function createHtmlPreview(document: DesignDocument, svg: string): string {
+    const regions: string[] = [];
+    const addRegions = (nodes: LayoutNode[]) => {
+        for (const node of nodes) {
+            const tooltip = getTooltip(node);
+            if (tooltip) {
+                const { x, y, width, height } = node.bounds;
+                const style = [
+                    `left:${percent(x, document.canvasWidth)}`,
+                    `top:${percent(y, document.canvasHeight)}`,
+                    `width:${percent(Math.max(width, 4), document.canvasWidth)}`,
+                    `height:${percent(Math.max(height, 4), document.canvasHeight)}`
+                ].join(';');
+                regions.push(`      <div class="region" style="${style}" title="${escapeHtml(tooltip)}"></div>`);
+            }
+            addRegions(node.children);
+        }
+    };
+    addRegions(buildLayoutTree(document));
+
+    const title = escapeHtml(document.title || 'Untitled Design');
+    const description = document.description ? `\n    <p class="description">${escapeHtml(document.description)}</p>` : '';
+    const prompt = document.prompt ? `\n    <details>\n      <summary>AI prompt</summary>\n      <p>${escapeHtml(document.prompt)}</p>\n    </details>` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="generator" content="Kazo Design">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; background: #f6f8fa; }
+    h1 { font-size: 1.5rem; margin: 0 0 0.5rem; }
+    .description { margin: 0 0 1rem; max-width: 60rem; }
+    details { margin: 0 0 1rem; max-width: 60rem; }
+    .design { position: relative; max-width: ${document.canvasWidth}px; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2); }
+    .design svg { display: block; width: 100%; height: auto; }
+    .region { position: absolute; border: 1px dashed transparent; }
+    .region:hover { border-color: #0969da; background: rgba(9, 105, 218, 0.08); }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${title}</h1>${description}${prompt}
+    <div class="design">
+      ${stripXmlProlog(svg)}
+${regions.join('\n')}
+    </div>
+  </main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Tooltip of an element: name and meaning, description and text. Empty for anonymous shapes.
+ */
+function getTooltip(node: LayoutNode): string {
+    const { element } = node;
+    const lines: string[] = [];
+    if (element.name) {
+        lines.push(element.meaning && element.meaning !== 'None' ? `${element.name} (${element.meaning})` : element.name);
+    }
+    if (element.description) {
+        lines.push(element.description);
+    }
+    if (lines.length > 0 && element.$type === 'text') {
+        lines.push(`"${element.content}"`);
+    }
+    return lines.join('\n');
+}
+
+function percent(value: number, total: number): string {
+    return `${formatNumber(total > 0 ? (value / total) * 100 : 0)}%`;
+}
+
+function formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Removes the XML declaration and doctype so the SVG can be inlined in HTML
+ */
+function stripXmlProlog(svg: string): string {
+    return svg.replace(/^\s*<\?xml[^>]*\?>\s*/i, '').replace(/^\s*<!DOCTYPE[^>]*>\s*/i, '').trim();
+}
+
+/**
+ * Encodes text as a PDF string, using UTF-16 when it is not plain ASCII
+ */
+function toPdfString(text: string): string {
+    if (/^[\x20-\x7E]*$/.test(text)) {
+        return `(${text.replace(/[\\()]/g, match => `\\${match}`)})`;
+    }
+    let hex = 'FEFF';
+    for (let index = 0; index < text.length; index++) {
+        hex += text.charCodeAt(index).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
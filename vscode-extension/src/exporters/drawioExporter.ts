@@ -0,0 +1,171 @@
+import { DesignDocument, DesignElement } from '../designDocument';
+import { getBounds } from '../designLayout';
+import { escapeHtml } from '../codegen/markup';
+import { getViewHosts, orderByViewNesting } from './viewNesting';
+
+/**
+ * Converts a design into a draw.io diagram (`.drawio` XML, uncompressed).
+ *
+ * Shapes keep their colors and text. Names, meanings and descriptions are
+ * stored as shape data (Edit Data in draw.io). Views become containers
+ * holding the elements drawn on them.
+ */
+export function exportDrawio(document: DesignDocument): string {
+    const hosts = getViewHosts(document);
+    const cells: string[] = [];
+
+    for (const element of orderByViewNesting(document, hosts)) {
+        const host = hosts.get(element);
+        const isView = element.meaning === 'View' && !!element.name;
+        const cell = convertElement(element, host?.id ?? '1', isView);
+        cells.push(wrapWithData(element, cell));
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="Kazo Design" type="device">
+  <diagram id="${attribute(document.title ? slug(document.title) : 'design')}" name="${attribute(document.title || 'Untitled Design')}">
+    <mxGraphModel grid="1" gridSize="10" page="1" pageWidth="${document.canvasWidth}" pageHeight="${document.canvasHeight}" background="${attribute(document.backgroundColor)}">
+      <root>
+        <mxCell id="0" />
+        <mxCell id="1" parent="0" />
+${cells.map(cell => `        ${cell}`).join('\n')}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>
+`;
+}
+
+/**
+ * Returns the `<mxCell>` of an element, positioned relative to its parent cell
+ */
+function convertElement(element: DesignElement, parent: string, isView: boolean): string {
+    const bounds = getBounds(element);
+    const geometry = `<mxGeometry x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}" as="geometry" />`;
+    const idAttribute = hasData(element) ? '' : ` id="${attribute(element.id)}"`;
+
+    switch (element.$type) {
+        case 'rectangle': {
+            const style = toStyle({
+                rounded: element.cornerRadius ? '1' : '0',
+                arcSize: element.cornerRadius ? String(Math.round(Math.min(50, element.cornerRadius / Math.max(1, Math.min(bounds.width, bounds.height)) * 100))) : undefined,
+                absoluteArcSize: element.cornerRadius ? '1' : undefined,
+                whiteSpace: 'wrap',
+                html: '1',
+                fillColor: color(element.fill),
+                strokeColor: color(element.stroke),
+                strokeWidth: element.strokeWidth !== undefined ? String(element.strokeWidth) : undefined,
+                // A View holds the elements drawn on its own canvas
+                container: isView ? '1' : undefined,
+                collapsible: isView ? '0' : undefined
+            });
+            return `<mxCell${idAttribute} value="" style="${attribute(style)}" vertex="1" parent="${attribute(parent)}">${geometry}</mxCell>`;
+        }
+        case 'circle': {
+            const style = toStyle({
+                ellipse: '',
+                whiteSpace: 'wrap',
+                html: '1',
+                aspect: 'fixed',
+                fillColor: color(element.fill),
+                strokeColor: color(element.stroke),
+                strokeWidth: element.strokeWidth !== undefined ? String(element.strokeWidth) : undefined,
+                container: isView ? '1' : undefined,
+                collapsible: isView ? '0' : undefined
+            });
+            return `<mxCell${idAttribute} value="" style="${attribute(style)}" vertex="1" parent="${attribute(parent)}">${geometry}</mxCell>`;
+        }
+        case 'line': {
+            const style = toStyle({
+                endArrow: 'none',
+                html: '1',
+                strokeColor: color(element.stroke),
+                strokeWidth: element.strokeWidth !== undefined ? String(element.strokeWidth) : undefined,
+                dashed: element.strokeDashArray ? '1' : undefined
+            });
+            return `<mxCell${idAttribute} value="" style="${attribute(style)}" edge="1" parent="${attribute(parent)}">`
+                + '<mxGeometry relative="1" as="geometry">'
+                + `<mxPoint x="${round(element.x)}" y="${round(element.y)}" as="sourcePoint" />`
+                + `<mxPoint x="${round(element.x2)}" y="${round(element.y2)}" as="targetPoint" />`
+                + '</mxGeometry></mxCell>';
+        }
+        case 'text': {
+            const style = toStyle({
+                text: '',
+                html: '1',
+                align: 'left',
+                verticalAlign: 'middle',
+                whiteSpace: 'nowrap',
+                fontColor: color(element.fill),
+                fontSize: element.fontSize !== undefined ? String(element.fontSize) : undefined,
+                fontFamily: element.fontFamily?.split(',')[0].trim().replace(/['"]/g, '') || undefined,
+                fontStyle: element.fontWeight === 'bold' ? '1' : undefined
+            });
+            // Labels are HTML (html=1), so line breaks become <br>
+            const label = escapeHtml(element.content).replace(/\n/g, '<br>');
+            const value = element.linkUrl ? `<a href="${escapeHtml(element.linkUrl)}">${label}</a>` : label;
+            return `<mxCell${idAttribute} value="${attribute(value)}" style="${attribute(style)}" vertex="1" parent="${attribute(parent)}">${geometry}</mxCell>`;
+        }
+        case 'image': {
+            // Styles can't contain ';', so draw.io writes data URIs without ';base64'
+            const source = element.source.replace(/^data:([\w/+.-]+);base64,/, 'data:$1,');
+            const style = toStyle({
+                shape: 'image',
+                html: '1',
+                imageAspect: element.preserveAspectRatio === false ? '0' : '1',
+                image: source || undefined
+            });
+            return `<mxCell${idAttribute} value="" style="${attribute(style)}" vertex="1" parent="${attribute(parent)}">${geometry}</mxCell>`;
+        }
+    }
+}
+
+/**
+ * Wraps a cell in a `<UserObject>` carrying the element's name, meaning and description
+ */
+function wrapWithData(element: DesignElement, cell: string): string {
+    if (!hasData(element)) {
+        return cell;
+    }
+    const data = [
+        `label="${cell.match(/ value="([^"]*)"/)?.[1] ?? ''}"`,
+        element.name ? `name="${attribute(element.name)}"` : '',
+        element.meaning && element.meaning !== 'None' ? `meaning="${attribute(element.meaning)}"` : '',
+        element.description ? `description="${attribute(element.description)}"` : ''
+    ].filter(part => part.length > 0).join(' ');
+    // The label moves to the UserObject; the inner cell keeps no id or value of its own
+    return `<UserObject id="${attribute(element.id)}" ${data}>${cell.replace(/ value="[^"]*"/, '')}</UserObject>`;
+}
+
+function hasData(element: DesignElement): boolean {
+    return !!element.name || (!!element.meaning && element.meaning !== 'None') || !!element.description;
+}
+
+function toStyle(properties: Record<string, string | undefined>): string {
+    return Object.entries(properties)
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([key, value]) => value === '' ? key : `${key}=${value}`)
+        .join(';') + ';';
+}
+
+function color(value: string | undefined): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    return value === 'transparent' ? 'none' : value;
+}
+
+/**
+ * Escapes a value for an XML attribute, keeping line breaks
+ */
+function attribute(value: string): string {
+    return escapeHtml(value).replace(/\n/g, '&#10;');
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function slug(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'design';
+}
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { DesignDocument, DesignElement } from '../designDocument';
+import { Bounds, getBounds } from '../designLayout';
+import { getViewHosts, orderByViewNesting } from './viewNesting';
+
+/**
+ * Converts a design into an Excalidraw scene (`.excalidraw` JSON).
+ *
+ * Shapes keep their colors and text; names, meanings and descriptions are kept
+ * in each element's `customData`. Views become frames holding the elements
+ * drawn on them, placed at the view's position.
+ */
+export function exportExcalidraw(document: DesignDocument): string {
+    const hosts = getViewHosts(document);
+    const elements: Record<string, unknown>[] = [];
+    const files: Record<string, Record<string, unknown>> = {};
+    const frames = new Map<DesignElement, Record<string, unknown>>();
+    const origins = new Map<DesignElement, { x: number; y: number }>();
+
+    for (const element of orderByViewNesting(document, hosts)) {
+        const host = hosts.get(element);
+        const hostOrigin = host ? origins.get(host) : undefined;
+        const offset = host && hostOrigin ? hostOrigin : { x: 0, y: 0 };
+        const frame = host ? frames.get(host) : undefined;
+
+        const converted = convertElement(element, offset, files);
+        converted.frameId = frame?.id ?? null;
+        elements.push(converted);
+
+        if (element.meaning === 'View' && element.name) {
+            const bounds = getBounds(element);
+            origins.set(element, { x: offset.x + bounds.x, y: offset.y + bounds.y });
+            const viewFrame = createBase(`${element.id}-frame`, 'frame', { x: offset.x + bounds.x, y: offset.y + bounds.y, width: bounds.width, height: bounds.height });
+            viewFrame.name = element.name;
+            viewFrame.frameId = null;
+            frames.set(element, viewFrame);
+        }
+    }
+
+    // Frames clip their contents, so each one grows to fit what is drawn on it
+    for (const [view, frame] of frames) {
+        const contents = elements.filter(element => element.frameId === frame.id);
+        for (const element of contents) {
+            const right = (element.x as number) + (element.width as number);
+            const bottom = (element.y as number) + (element.height as number);
+            frame.width = Math.max(frame.width as number, right - (frame.x as number));
+            frame.height = Math.max(frame.height as number, bottom - (frame.y as number));
+        }
+        // Frames are listed after their contents, as Excalidraw does
+        const lastContent = Math.max(elements.findIndex(element => element.id === view.id), ...contents.map(element => elements.indexOf(element)));
+        elements.splice(lastContent + 1, 0, frame);
+    }
+
+    return JSON.stringify({
+        type: 'excalidraw',
+        version: 2,
+        source: 'Kazo Design',
+        elements,
+        appState: {
+            viewBackgroundColor: document.backgroundColor,
+            gridSize: null
+        },
+        files
+    }, null, 2);
+}
+
+function convertElement(element: DesignElement, offset: { x: number; y: number }, files: Record<string, Record<string, unknown>>): Record<string, unknown> {
+    const bounds = getBounds(element);
+    const position = { ...bounds, x: bounds.x + offset.x, y: bounds.y + offset.y };
+    const customData = {
+        kazoName: element.name ?? undefined,
+        kazoMeaning: element.meaning && element.meaning !== 'None' ? element.meaning : undefined,
+        kazoDescription: element.description ?? undefined
+    };
+
+    switch (element.$type) {
+        case 'rectangle':
+            return {
+                ...createBase(element.id, 'rectangle', position),
+                strokeColor: element.stroke ?? '#1e1e1e',
+                backgroundColor: element.fill ?? 'transparent',
+                strokeWidth: element.strokeWidth ?? 2,
+                roundness: element.cornerRadius ? { type: 3, value: element.cornerRadius } : null,
+                customData
+            };
+        case 'circle':
+            return {
+                ...createBase(element.id, 'ellipse', position),
+                strokeColor: element.stroke ?? '#1e1e1e',
+                backgroundColor: element.fill ?? 'transparent',
+                strokeWidth: element.strokeWidth ?? 2,
+                customData
+            };
+        case 'line':
+            return {
+                ...createBase(element.id, 'line', { x: element.x + offset.x, y: element.y + offset.y, width: bounds.width, height: bounds.height }),
+                strokeColor: element.stroke ?? '#1e1e1e',
+                strokeWidth: element.strokeWidth ?? 2,
+                strokeStyle: element.strokeDashArray ? 'dashed' : 'solid',
+                points: [[0, 0], [element.x2 - element.x, element.y2 - element.y]],
+                lastCommittedPoint: null,
+                startBinding: null,
+                endBinding: null,
+                startArrowhead: null,
+                endArrowhead: null,
+                customData
+            };
+        case 'text': {
+            const fontSize = element.fontSize ?? 16;
+            return {
+                ...createBase(element.id, 'text', position),
+                strokeColor: element.fill ?? '#1e1e1e',
+                text: element.content,
+                originalText: element.content,
+                fontSize,
+                // 1 is Excalidraw's hand-drawn font, 2 the normal sans-serif and 3 monospace
+                fontFamily: /mono|courier|consol/i.test(element.fontFamily ?? '') ? 3 : 2,
+                textAlign: 'left',
+                verticalAlign: 'top',
+                containerId: null,
+                lineHeight: 1.25,
+                link: element.linkUrl ?? null,
+                customData
+            };
+        }
+        case 'image': {
+            const dataUrl = /^data:([\w/+.-]+);base64,/.exec(element.source);
+            if (!dataUrl) {
+                // Excalidraw only embeds images, so linked images become placeholders pointing at the source
+                return {
+                    ...createBase(element.id, 'rectangle', position),
+                    strokeStyle: 'dashed',
+                    link: element.source || null,
+                    customData
+                };
+            }
+            const fileId = createHash('sha1').update(element.source).digest('hex');
+            files[fileId] = { mimeType: dataUrl[1], id: fileId, dataURL: element.source, created: Date.now() };
+            return {
+                ...createBase(element.id, 'image', position),
+                fileId,
+                status: 'saved',
+                scale: [1, 1],
+                customData
+            };
+        }
+    }
+}
+
+/**
+ * Properties every Excalidraw element has, drawn cleanly (no roughness)
+ */
+function createBase(id: string, type: string, bounds: Bounds): Record<string, unknown> {
+    const seed = hashSeed(id);
+    return {
+        id,
+        type,
+        x: bounds.x,
+        y: bounds.y,
+        width: bounds.width,
+        height: bounds.height,
+        angle: 0,
+        strokeColor: '#1e1e1e',
+        backgroundColor: 'transparent',
+        fillStyle: 'solid',
+        strokeWidth: 2,
+        strokeStyle: 'solid',
+        roughness: 0,
+        opacity: 100,
+        groupIds: [],
+        frameId: null,
+        roundness: null,
+        seed,
+        version: 1,
+        versionNonce: seed,
+        isDeleted: false,
+        boundElements: null,
+        updated: 1,
+        link: null,
+        locked: false
+    };
+}
+
+/**
+ * Stable seed for Excalidraw's shape randomization, so exports are reproducible
+ */
+function hashSeed(id: string): number {
+    return createHash('sha1').update(id).digest().readUInt32BE(0) & 0x7fffffff;
+}
@@ -0,0 +1,67 @@
+import { DesignDocument, DesignElement, TextElement } from '../designDocument';
+import { escapeHtml } from '../codegen/markup';
+
+/** Font size and weight of headings (`KText.ComputedFontSize` / `ComputedFontWeight`) */
+const HEADINGS: Partial<Record<NonNullable<TextElement['textType']>, { size: number; weight: string }>> = {
+    H1: { size: 32, weight: 'bold' },
+    H2: { size: 28, weight: 'bold' },
+    H3: { size: 24, weight: 'bold' },
+    H4: { size: 20, weight: '600' },
+    H5: { size: 18, weight: '600' }
+};
+
+/**
+ * Renders a design as SVG without the editor, for previews of designs the
+ * editor has not drawn (e.g. candidates proposed by the AI). Follows
+ * `DesignService.GenerateSvg`, with headings sized as on the canvas.
+ */
+export function exportSvg(document: DesignDocument): string {
+    const { canvasWidth: width, canvasHeight: height } = document;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="100%" height="100%" fill="${escapeHtml(document.backgroundColor)}" />
+${document.backgroundImage ? `  <image x="0" y="0" width="${width}" height="${height}" href="${escapeHtml(document.backgroundImage)}" preserveAspectRatio="xMidYMid meet" />\n` : ''}${document.elements.map(element => `  ${convertElement(element)}`).join('\n')}
+</svg>
+`;
+}
+
+function convertElement(element: DesignElement): string {
+    const id = `id="${escapeHtml(element.id)}"`;
+    switch (element.$type) {
+        case 'rectangle': {
+            const radius = element.cornerRadius ? ` rx="${element.cornerRadius}" ry="${element.cornerRadius}"` : '';
+            return `<rect ${id} x="${element.x}" y="${element.y}" width="${element.width}" height="${element.height}"${radius}`
+                + ` fill="${escapeHtml(element.fill ?? '#4a90d9')}" stroke="${escapeHtml(element.stroke ?? '#2d5a87')}" stroke-width="${element.strokeWidth ?? 2}"`
+                + `${transform(element, element.x + element.width / 2, element.y + element.height / 2)} />`;
+        }
+        case 'circle':
+            return `<circle ${id} cx="${element.x}" cy="${element.y}" r="${element.radius}"`
+                + ` fill="${escapeHtml(element.fill ?? '#5cb85c')}" stroke="${escapeHtml(element.stroke ?? '#3d8b3d')}" stroke-width="${element.strokeWidth ?? 2}"`
+                + `${transform(element, element.x, element.y)} />`;
+        case 'line': {
+            const dashes = element.strokeDashArray ? ` stroke-dasharray="${escapeHtml(element.strokeDashArray)}"` : '';
+            return `<line ${id} x1="${element.x}" y1="${element.y}" x2="${element.x2}" y2="${element.y2}"`
+                + ` stroke="${escapeHtml(element.stroke ?? '#f0ad4e')}" stroke-width="${element.strokeWidth ?? 3}"${dashes}`
+                + `${transform(element, (element.x + element.x2) / 2, (element.y + element.y2) / 2)} />`;
+        }
+        case 'text': {
+            const heading = element.textType ? HEADINGS[element.textType] : undefined;
+            const fontSize = heading?.size ?? element.fontSize ?? 16;
+            return `<text ${id} x="${element.x}" y="${element.y}" font-size="${fontSize}"`
+                + ` font-family="${escapeHtml(element.fontFamily ?? 'Arial, sans-serif')}" font-weight="${escapeHtml(heading?.weight ?? element.fontWeight ?? 'normal')}"`
+                + ` fill="${escapeHtml(element.fill ?? '#e0e0e0')}"`
+                + `${transform(element, element.x + element.content.length * fontSize * 0.3, element.y - fontSize * 0.6)}>${escapeHtml(element.content)}</text>`;
+        }
+        case 'image': {
+            const ratio = element.preserveAspectRatio === false ? ' preserveAspectRatio="none"' : ' preserveAspectRatio="xMidYMid meet"';
+            return `<image ${id} x="${element.x}" y="${element.y}" width="${element.width}" height="${element.height}" href="${escapeHtml(element.source)}"${ratio}`
+                + `${transform(element, element.x + element.width / 2, element.y + element.height / 2)} />`;
+        }
+    }
+}
+
+/**
+ * Rotation around the element's center, like `DesignElement.GetTransform`
+ */
+function transform(element: DesignElement, centerX: number, centerY: number): string {
+    return element.rotation ? ` transform="rotate(${element.rotation} ${centerX} ${centerY})"` : '';
+}
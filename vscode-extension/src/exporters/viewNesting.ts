@@ -0,0 +1,57 @@
+import { DesignDocument, DesignElement } from '../designDocument';
+
+/**
+ * Returns, for each element drawn on a View's own canvas, the View element
+ * hosting it. Elements on the main canvas are not in the map.
+ */
+export function getViewHosts(document: DesignDocument): Map<DesignElement, DesignElement> {
+    const views = new Map<string, DesignElement>();
+    for (const element of document.elements) {
+        if (element.meaning === 'View' && element.name && !views.has(element.name)) {
+            views.set(element.name, element);
+        }
+    }
+
+    const hosts = new Map<DesignElement, DesignElement>();
+    for (const element of document.elements) {
+        const view = element.parent ? views.get(element.parent) : undefined;
+        if (view && view !== element) {
+            hosts.set(element, view);
+        }
+    }
+    return hosts;
+}
+
+/**
+ * Returns the elements in an order where every View comes before the elements
+ * drawn on it, so exporters can create containers before their contents.
+ * Views nested in a cycle are exported on the main canvas.
+ */
+export function orderByViewNesting(document: DesignDocument, hosts: Map<DesignElement, DesignElement>): DesignElement[] {
+    const ordered: DesignElement[] = [];
+    const placed = new Set<DesignElement>();
+    const visiting = new Set<DesignElement>();
+
+    const place = (element: DesignElement) => {
+        if (placed.has(element)) {
+            return;
+        }
+        const host = hosts.get(element);
+        if (host) {
+            if (visiting.has(host)) {
+                hosts.delete(element);
+            } else {
+                visiting.add(element);
+                place(host);
+                visiting.delete(element);
+            }
+        }
+        if (!placed.has(element)) {
+            placed.add(element);
+            ordered.push(element);
+        }
+    };
+
+    document.elements.forEach(place);
+    return ordered;
+}
@@ -1,11 +1,42 @@
 import * as vscode from 'vscode';
 import { KazoDesignEditorProvider } from './kazoDesignEditorProvider';
-import { registerMcpTools } from './mcpTools';
+import { SketchRequestManager, registerMcpTools } from './mcpTools';
+import { SketchRequestStatus } from './sketchRequestStatus';
+import { McpBridgeServer } from './mcpBridge';
+import { McpHttpServer } from './mcpHttpServer';
+import { CodeGenerator, createCodeGeneratorRegistry } from './codegen/codeGenerator';
+import { generateCodeInteractively } from './codeGeneration';
+import { exportDesignInteractively } from './designExport';
+import { importDesignInteractively } from './designImport';
+import { annotateImageInteractively } from './imageAnnotation';
+import { DesignPersistence } from './designPersistence';
+import { cancelTextInput, submitTextInput } from './forms/textInput';
+import {
+    DesignLibraryProvider,
+    LibraryDesign,
+    attachLibraryDesignToChat,
+    deleteLibraryDesign,
+    duplicateLibraryDesign,
+    openLibraryDesign,
+    renameLibraryDesign
+} from './designLibrary';
+
+/**
+ * API returned from `activate`, available to other extensions through
+ * `vscode.extensions.getExtension(...).exports`
+ */
+export interface KazoDesignApi {
+    /**
+     * Adds a code generator offered by `Kazo Design: Generate Code from Design`
+     * and the `kazo_generate_code` tool. Dispose the result to remove it.
+     */
+    registerCodeGenerator(generator: CodeGenerator): vscode.Disposable;
+}
 
 // Shared output channel for the extension
 export let outputChannel: vscode.OutputChannel;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): KazoDesignApi {
     // Create output channel first
     outputChannel = vscode.window.createOutputChannel('Kazo Design');
     context.subscriptions.push(outputChannel);
@@ -19,7 +50,7 @@ export function activate(context: vscode.ExtensionContext) {
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('kazoDesign.openEditor', () => {
-            provider.openNewEditor();
+            provider.openEditor();
         })
     );
 
@@ -29,6 +60,81 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.openSavedDesign', (uri?: vscode.Uri) => {
+            return provider.openSavedDesign(uri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.showPendingRequests', () => {
+            return provider.showPendingRequests();
+        })
+    );
+
+    // Status bar countdown and reminders for sketch requests waiting on the user
+    context.subscriptions.push(
+        new SketchRequestStatus(SketchRequestManager.getInstance(), requestId => provider.openEditorForRequest(requestId))
+    );
+
+    // Code generators for the generate code command and tool
+    const codeGenerators = createCodeGeneratorRegistry();
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.generateCode', (uri?: vscode.Uri) => {
+            return generateCodeInteractively(codeGenerators, provider.getActiveDesignJson(), uri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.exportDesign', () => {
+            return exportDesignInteractively(provider.getDesignRenderer(), new DesignPersistence());
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.importDesign', (uri?: vscode.Uri) => {
+            return importDesignInteractively(
+                json => provider.loadDesign(json, provider.openNewEditor()),
+                message => outputChannel.appendLine(message),
+                uri
+            );
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.annotateImage', (uri?: vscode.Uri) => {
+            return annotateImageInteractively(json => provider.loadDesign(json, provider.openNewEditor()), uri);
+        })
+    );
+
+    // Submit / Cancel buttons of multi-line answers to kazo_request_text
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.textInput.submit', (uri?: vscode.Uri) => submitTextInput(uri)),
+        vscode.commands.registerCommand('kazoDesign.textInput.cancel', (uri?: vscode.Uri) => cancelTextInput(uri))
+    );
+
+    // Kazo Designs sidebar listing the designs in the workspace
+    const designLibrary = new DesignLibraryProvider();
+    context.subscriptions.push(
+        designLibrary,
+        vscode.window.registerTreeDataProvider(DesignLibraryProvider.viewId, designLibrary),
+        vscode.commands.registerCommand('kazoDesign.library.refresh', () => designLibrary.refresh()),
+        registerLibraryCommand('kazoDesign.library.open', design => openLibraryDesign(design, KazoDesignEditorProvider.customEditorViewType)),
+        registerLibraryCommand('kazoDesign.library.duplicate', duplicateLibraryDesign),
+        registerLibraryCommand('kazoDesign.library.rename', renameLibraryDesign),
+        registerLibraryCommand('kazoDesign.library.delete', deleteLibraryDesign),
+        registerLibraryCommand('kazoDesign.library.attachToChat', attachLibraryDesignToChat)
+    );
+
+    // Register the custom editor for .kazo / .kazo.json design files
+    context.subscriptions.push(
+        vscode.window.registerCustomEditorProvider(KazoDesignEditorProvider.customEditorViewType, provider, {
+            webviewOptions: { retainContextWhenHidden: true },
+            supportsMultipleEditorsPerDocument: false
+        })
+    );
+
     // Register the webview panel serializer for persistence
     if (vscode.window.registerWebviewPanelSerializer) {
         vscode.window.registerWebviewPanelSerializer(KazoDesignEditorProvider.viewType, {
@@ -39,9 +145,66 @@ export function activate(context: vscode.ExtensionContext) {
     }
 
     // Register MCP tools for AI assistant integration
-    registerMcpTools(context, () => provider.openNewEditor());
+    const tools = registerMcpTools(
+        context,
+        (requestId, initialJson) => provider.openEditorForRequest(requestId, initialJson),
+        codeGenerators
+    );
 
     outputChannel.appendLine('Kazo Design MCP tools registered for AI assistant integration');
+
+    // Expose the same tools to the standalone stdio MCP server (out/mcpServer.js)
+    if (vscode.workspace.getConfiguration('kazoDesign').get<boolean>('mcpBridge.enabled', true)) {
+        const bridge = new McpBridgeServer(tools, outputChannel);
+        bridge.start();
+        context.subscriptions.push(bridge);
+    }
+
+    // Publish the same tools as an MCP server for MCP-aware agents in VS Code
+    if (vscode.workspace.getConfiguration('kazoDesign').get<boolean>('mcpHttpServer.enabled', true)) {
+        const httpServer = new McpHttpServer(tools, context.extension.packageJSON, outputChannel);
+        context.subscriptions.push(
+            httpServer,
+            vscode.lm.registerMcpServerDefinitionProvider('kazoDesign.mcpServer', {
+                provideMcpServerDefinitions: async () => [await httpServer.getServerDefinition()]
+            })
+        );
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('kazoDesign.copyMcpServerConfig', async () => {
+            const config = {
+                mcpServers: {
+                    'kazo-design': {
+                        command: 'node',
+                        args: [vscode.Uri.joinPath(context.extensionUri, 'out', 'mcpServer.js').fsPath]
+                    }
+                }
+            };
+            await vscode.env.clipboard.writeText(JSON.stringify(config, null, 2));
+            vscode.window.showInformationMessage('Kazo Design MCP server configuration copied to the clipboard.');
+        })
+    );
+
+    return {
+        registerCodeGenerator: generator => new vscode.Disposable(codeGenerators.register(generator))
+    };
+}
+
+/**
+ * Registers a Kazo Designs tree item command, reporting failures to the user
+ */
+function registerLibraryCommand(command: string, action: (design: LibraryDesign) => Promise<void>): vscode.Disposable {
+    return vscode.commands.registerCommand(command, async (design?: LibraryDesign) => {
+        if (!design) {
+            return;
+        }
+        try {
+            await action(design);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Kazo Design: ${error instanceof Error ? error.message : error}`);
+        }
+    });
 }
 
 export function deactivate() {
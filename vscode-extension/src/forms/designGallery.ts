@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { escapeHtml } from '../codegen/markup';
+
+/**
+ * A design shown in the gallery
+ */
+export interface GalleryCandidate {
+    id: string;
+    label: string;
+    description?: string;
+    svg: string;
+}
+
+export interface DesignGalleryOptions {
+    title: string;
+    /** Text shown above the candidates */
+    message?: string;
+    /** Offer "Choose and Edit" to open the chosen design in the editor */
+    allowEdit: boolean;
+}
+
+/**
+ * Outcome of the gallery: the chosen candidate, whether the user wants to edit
+ * it and their notes, or why they left without choosing
+ */
+export type DesignGalleryResult =
+    | { chosen: true; candidateId: string; edit: boolean; comment?: string }
+    | { chosen: false; reason: 'cancelled' | 'closed' };
+
+type GalleryMessage =
+    | { type: 'choose'; id: string; edit: boolean; comment: string }
+    | { type: 'cancel' };
+
+/**
+ * Shows designs side by side in a webview panel and waits for the user to choose one.
+ * Previews are SVG images loaded as data URIs, so candidates can't run scripts.
+ */
+export function showDesignGallery(options: DesignGalleryOptions, candidates: GalleryCandidate[], token: vscode.CancellationToken): Promise<DesignGalleryResult> {
+    const panel = vscode.window.createWebviewPanel(
+        'kazoDesign.gallery',
+        options.title,
+        vscode.ViewColumn.Active,
+        { enableScripts: true, localResourceRoots: [] }
+    );
+    panel.webview.html = getGalleryHtml(panel.webview, options, candidates);
+
+    return new Promise(resolve => {
+        let result: DesignGalleryResult = { chosen: false, reason: 'closed' };
+        const subscriptions: vscode.Disposable[] = [];
+
+        const finish = (outcome: DesignGalleryResult) => {
+            result = outcome;
+            panel.dispose();
+        };
+
+        subscriptions.push(
+            panel.webview.onDidReceiveMessage((message: GalleryMessage) => {
+                switch (message.type) {
+                    case 'choose':
+                        if (candidates.some(candidate => candidate.id === message.id)) {
+                            const comment = message.comment.trim();
+                            finish({ chosen: true, candidateId: message.id, edit: options.allowEdit && message.edit, comment: comment || undefined });
+                        }
+                        break;
+                    case 'cancel':
+                        finish({ chosen: false, reason: 'cancelled' });
+                        break;
+                }
+            }),
+            token.onCancellationRequested(() => finish({ chosen: false, reason: 'cancelled' })),
+            panel.onDidDispose(() => {
+                subscriptions.forEach(subscription => subscription.dispose());
+                resolve(result);
+            })
+        );
+    });
+}
+
+function getGalleryHtml(webview: vscode.Webview, options: DesignGalleryOptions, candidates: GalleryCandidate[]): string {
+    const nonce = randomUUID().replace(/-/g, '');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(options.title)}</title>
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 16px 24px; }
+        h1 { font-size: 1.4em; font-weight: 600; }
+        .message { color: var(--vscode-descriptionForeground); white-space: pre-wrap; }
+        .candidates { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 16px; margin: 16px 0; }
+        .candidate { display: flex; flex-direction: column; gap: 8px; padding: 12px; border: 1px solid var(--vscode-panel-border, transparent); background: var(--vscode-editorWidget-background); }
+        .candidate h2 { font-size: 1.1em; font-weight: 600; margin: 0; }
+        .candidate img { width: 100%; height: auto; background: var(--vscode-editor-background); }
+        .description { color: var(--vscode-descriptionForeground); font-size: 0.9em; white-space: pre-wrap; flex: 1; }
+        .actions { display: flex; gap: 8px; }
+        label { display: block; font-weight: 600; margin-bottom: 4px; }
+        textarea {
+            box-sizing: border-box; width: 100%; min-height: 60px; padding: 4px 6px; font: inherit; resize: vertical;
+            color: var(--vscode-input-foreground); background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+        }
+        button { padding: 4px 14px; font: inherit; border: none; cursor: pointer; color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+        button.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        .footer { margin-top: 16px; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(options.title)}</h1>
+    ${options.message ? `<p class="message">${escapeHtml(options.message)}</p>` : ''}
+    <div class="candidates">
+        ${candidates.map(candidate => renderCandidate(candidate, options.allowEdit)).join('\n        ')}
+    </div>
+    <label for="comment">Notes for the AI (optional)</label>
+    <textarea id="comment" placeholder="What you like or would change about your choice"></textarea>
+    <div class="actions footer">
+        <button type="button" class="secondary" id="cancel">Cancel</button>
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        for (const button of document.querySelectorAll('[data-choose]')) {
+            button.addEventListener('click', () => vscode.postMessage({
+                type: 'choose',
+                id: button.dataset.choose,
+                edit: button.dataset.edit === 'true',
+                comment: document.getElementById('comment').value
+            }));
+        }
+        document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Renders a candidate with its preview, description and choose buttons
+ */
+function renderCandidate(candidate: GalleryCandidate, allowEdit: boolean): string {
+    const id = escapeHtml(candidate.id);
+    const label = escapeHtml(candidate.label);
+    const source = `data:image/svg+xml;base64,${Buffer.from(candidate.svg, 'utf8').toString('base64')}`;
+    return `<section class="candidate">
+            <h2>${label}</h2>
+            <img src="${source}" alt="Preview of ${label}">
+            <div class="description">${candidate.description ? escapeHtml(candidate.description) : ''}</div>
+            <div class="actions">
+                <button type="button" data-choose="${id}" data-edit="false">Choose</button>
+                ${allowEdit ? `<button type="button" class="secondary" data-choose="${id}" data-edit="true">Choose and Edit</button>` : ''}
+            </div>
+        </section>`;
+}
@@ -0,0 +1,239 @@
+import { pluralize, validateText } from './textValidation';
+
+/**
+ * Form definitions for `kazo_request_form`: a JSON-Schema-like object whose
+ * properties become the fields of a webview form, in order. Validation runs
+ * here so the form can show errors inline and the AI only gets valid values.
+ */
+
+/**
+ * A field of the form, described like a JSON Schema property
+ */
+export interface FormProperty {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+    /** Label of the field, the property name when absent */
+    title?: string;
+    /** Help text shown under the field */
+    description?: string;
+    default?: unknown;
+    placeholder?: string;
+    /** `color` shows a color picker, `file` and `folder` a path with a Browse button */
+    format?: 'color' | 'file' | 'folder' | 'multiline';
+    /** Allowed values: a dropdown for strings, checkboxes for arrays (via `items.enum`) */
+    enum?: string[];
+    items?: { type?: 'string'; enum?: string[] };
+    /** Regular expression the value must match (anywhere, like JSON Schema) */
+    pattern?: string;
+    /** Message shown when `pattern` does not match */
+    errorMessage?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+}
+
+/**
+ * Input of the form tool
+ */
+export interface FormDefinition {
+    title: string;
+    /** Text shown above the fields */
+    message?: string;
+    submitLabel?: string;
+    properties: Record<string, FormProperty>;
+    required?: string[];
+}
+
+/**
+ * Kinds of input the form renders
+ */
+export type FormFieldKind = 'text' | 'multiline' | 'number' | 'boolean' | 'select' | 'multiSelect' | 'color' | 'file' | 'folder';
+
+/**
+ * A field ready to render: its property with the resolved kind
+ */
+export interface FormField {
+    name: string;
+    kind: FormFieldKind;
+    label: string;
+    required: boolean;
+    property: FormProperty;
+}
+
+/**
+ * Raw values posted by the form: strings for inputs, booleans for checkboxes,
+ * string arrays for multi-selects
+ */
+export type RawFormValues = Record<string, string | boolean | string[] | undefined>;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Checks a form definition sent by the AI and returns its fields in order.
+ * Throws when the definition can't be rendered; these errors go back to the AI.
+ */
+export function getFormFields(definition: FormDefinition): FormField[] {
+    if (!definition || typeof definition.title !== 'string' || definition.title.trim().length === 0) {
+        throw new Error('The form needs a title');
+    }
+    if (!definition.properties || typeof definition.properties !== 'object' || Object.keys(definition.properties).length === 0) {
+        throw new Error('The form needs at least one property');
+    }
+
+    const required = new Set(definition.required ?? []);
+    for (const name of required) {
+        if (!(name in definition.properties)) {
+            throw new Error(`Required property "${name}" is not defined`);
+        }
+    }
+
+    return Object.entries(definition.properties).map(([name, property]) => {
+        const kind = getFieldKind(name, property);
+        if (property.pattern !== undefined) {
+            try {
+                new RegExp(property.pattern);
+            } catch {
+                throw new Error(`Property "${name}" has an invalid pattern: ${property.pattern}`);
+            }
+        }
+        return { name, kind, label: property.title || name, required: required.has(name), property };
+    });
+}
+
+function getFieldKind(name: string, property: FormProperty): FormFieldKind {
+    switch (property?.type) {
+        case 'string':
+            if (property.enum) {
+                if (!isStringList(property.enum)) {
+                    throw new Error(`Property "${name}" must list its enum values as a non-empty array of strings`);
+                }
+                return 'select';
+            }
+            switch (property.format) {
+                case 'color':
+                    return 'color';
+                case 'file':
+                    return 'file';
+                case 'folder':
+                    return 'folder';
+                case 'multiline':
+                    return 'multiline';
+                default:
+                    return 'text';
+            }
+        case 'number':
+        case 'integer':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'array':
+            if (!isStringList(property.items?.enum)) {
+                throw new Error(`Property "${name}" is an array, so it needs items.enum listing the choices`);
+            }
+            return 'multiSelect';
+        default:
+            throw new Error(`Property "${name}" has an unsupported type "${property?.type}" (use string, number, integer, boolean or array)`);
+    }
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validates the posted values. Returns the errors keyed by field name, empty when the form is valid.
+ */
+export function validateFormValues(fields: FormField[], values: RawFormValues): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const field of fields) {
+        const error = validateField(field, values[field.name]);
+        if (error) {
+            errors[field.name] = error;
+        }
+    }
+    return errors;
+}
+
+function validateField(field: FormField, value: RawFormValues[string]): string | undefined {
+    const { property } = field;
+
+    if (field.kind === 'boolean') {
+        return undefined;
+    }
+
+    if (field.kind === 'multiSelect') {
+        const selected = Array.isArray(value) ? value : [];
+        if (field.required && selected.length === 0) {
+            return 'Select at least one option';
+        }
+        if (selected.some(item => !property.items?.enum?.includes(item))) {
+            return 'Select only the listed options';
+        }
+        if (property.minItems !== undefined && selected.length < property.minItems) {
+            return `Select at least ${pluralize(property.minItems, 'option')}`;
+        }
+        if (property.maxItems !== undefined && selected.length > property.maxItems) {
+            return `Select at most ${pluralize(property.maxItems, 'option')}`;
+        }
+        return undefined;
+    }
+
+    const text = typeof value === 'string' ? value : '';
+    if (text.trim().length === 0) {
+        return field.required ? 'This field is required' : undefined;
+    }
+
+    switch (field.kind) {
+        case 'number': {
+            const number = Number(text);
+            if (!Number.isFinite(number)) {
+                return 'Enter a number';
+            }
+            if (property.type === 'integer' && !Number.isInteger(number)) {
+                return 'Enter a whole number';
+            }
+            if (property.minimum !== undefined && number < property.minimum) {
+                return `Enter ${property.minimum} or more`;
+            }
+            if (property.maximum !== undefined && number > property.maximum) {
+                return `Enter ${property.maximum} or less`;
+            }
+            return undefined;
+        }
+        case 'select':
+            return property.enum?.includes(text) ? undefined : 'Select one of the listed options';
+        case 'color':
+            return COLOR_PATTERN.test(text) ? undefined : 'Enter a color such as #1e90ff';
+        default: {
+            // `format` means the kind of input here, so only the text constraints apply
+            const { pattern, errorMessage, minLength, maxLength } = property;
+            return validateText(text, { pattern, errorMessage, minLength, maxLength });
+        }
+    }
+}
+
+/**
+ * Converts valid posted values to the typed object returned to the AI:
+ * numbers, booleans, string arrays and strings. Empty optional fields are left out.
+ */
+export function toFormResult(fields: FormField[], values: RawFormValues): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const field of fields) {
+        const value = values[field.name];
+        switch (field.kind) {
+            case 'boolean':
+                result[field.name] = value === true;
+                break;
+            case 'multiSelect':
+                result[field.name] = Array.isArray(value) ? value : [];
+                break;
+            default:
+                if (typeof value === 'string' && value.trim().length > 0) {
+                    result[field.name] = field.kind === 'number' ? Number(value) : value;
+                }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { escapeHtml } from '../codegen/markup';
+import { FormDefinition, FormField, RawFormValues, toFormResult, validateFormValues } from './formDefinition';
+
+/**
+ * Outcome of a form: the typed values, or why the user left without submitting
+ */
+export type FormPanelResult =
+    | { submitted: true; values: Record<string, unknown> }
+    | { submitted: false; reason: 'cancelled' | 'closed' };
+
+type FormMessage =
+    | { type: 'submit'; values: RawFormValues }
+    | { type: 'browse'; field: string }
+    | { type: 'cancel' };
+
+/**
+ * Shows a form in a webview panel and waits for the user to submit it.
+ * Submitted values are validated here; errors are shown next to their fields
+ * and the form stays open until it is valid, cancelled or closed.
+ */
+export function showFormPanel(definition: FormDefinition, fields: FormField[], token: vscode.CancellationToken): Promise<FormPanelResult> {
+    const panel = vscode.window.createWebviewPanel(
+        'kazoDesign.form',
+        definition.title,
+        vscode.ViewColumn.Active,
+        { enableScripts: true, localResourceRoots: [] }
+    );
+    panel.webview.html = getFormHtml(panel.webview, definition, fields);
+
+    return new Promise(resolve => {
+        let result: FormPanelResult = { submitted: false, reason: 'closed' };
+        const subscriptions: vscode.Disposable[] = [];
+
+        const finish = (outcome: FormPanelResult) => {
+            result = outcome;
+            panel.dispose();
+        };
+
+        subscriptions.push(
+            panel.webview.onDidReceiveMessage(async (message: FormMessage) => {
+                switch (message.type) {
+                    case 'submit': {
+                        const errors = validateFormValues(fields, message.values);
+                        if (Object.keys(errors).length > 0) {
+                            panel.webview.postMessage({ type: 'errors', errors });
+                        } else {
+                            finish({ submitted: true, values: toFormResult(fields, message.values) });
+                        }
+                        break;
+                    }
+                    case 'browse': {
+                        const field = fields.find(f => f.name === message.field);
+                        const picked = field && await vscode.window.showOpenDialog({
+                            title: field.label,
+                            canSelectMany: false,
+                            canSelectFiles: field.kind === 'file',
+                            canSelectFolders: field.kind === 'folder',
+                            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+                        });
+                        if (field && picked && picked.length > 0) {
+                            panel.webview.postMessage({ type: 'setValue', field: field.name, value: picked[0].fsPath });
+                        }
+                        break;
+                    }
+                    case 'cancel':
+                        finish({ submitted: false, reason: 'cancelled' });
+                        break;
+                }
+            }),
+            token.onCancellationRequested(() => finish({ submitted: false, reason: 'cancelled' })),
+            panel.onDidDispose(() => {
+                subscriptions.forEach(subscription => subscription.dispose());
+                resolve(result);
+            })
+        );
+    });
+}
+
+function getFormHtml(webview: vscode.Webview, definition: FormDefinition, fields: FormField[]): string {
+    const nonce = randomUUID().replace(/-/g, '');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(definition.title)}</title>
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); max-width: 640px; padding: 16px 24px; }
+        h1 { font-size: 1.4em; font-weight: 600; }
+        .message { color: var(--vscode-descriptionForeground); white-space: pre-wrap; }
+        .field { margin: 16px 0; }
+        .field > label, .field > .label { display: block; font-weight: 600; margin-bottom: 4px; }
+        .required { color: var(--vscode-errorForeground); }
+        .description { color: var(--vscode-descriptionForeground); font-size: 0.9em; margin-top: 4px; }
+        input[type=text], input[type=number], select, textarea {
+            box-sizing: border-box; width: 100%; padding: 4px 6px; font: inherit;
+            color: var(--vscode-input-foreground); background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+        }
+        textarea { min-height: 80px; resize: vertical; }
+        .path { display: flex; gap: 6px; }
+        .choice { display: flex; align-items: center; gap: 6px; margin: 2px 0; font-weight: normal; }
+        .invalid input[type=text], .invalid input[type=number], .invalid select, .invalid textarea { border-color: var(--vscode-inputValidation-errorBorder); }
+        .error { color: var(--vscode-errorForeground); font-size: 0.9em; margin-top: 4px; }
+        .error:empty { display: none; }
+        .actions { display: flex; gap: 8px; margin-top: 24px; }
+        button { padding: 4px 14px; font: inherit; border: none; cursor: pointer; color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+        button.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(definition.title)}</h1>
+    ${definition.message ? `<p class="message">${escapeHtml(definition.message)}</p>` : ''}
+    <form id="form" novalidate>
+        ${fields.map((field, index) => renderField(field, index)).join('\n        ')}
+        <div class="actions">
+            <button type="submit">${escapeHtml(definition.submitLabel || 'Submit')}</button>
+            <button type="button" class="secondary" id="cancel">Cancel</button>
+        </div>
+    </form>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const form = document.getElementById('form');
+        const fieldElements = [...document.querySelectorAll('.field')];
+
+        function collectValues() {
+            const values = {};
+            for (const element of fieldElements) {
+                const name = element.dataset.field;
+                switch (element.dataset.kind) {
+                    case 'boolean':
+                        values[name] = element.querySelector('input').checked;
+                        break;
+                    case 'multiSelect':
+                        values[name] = [...element.querySelectorAll('input:checked')].map(input => input.value);
+                        break;
+                    default:
+                        values[name] = element.querySelector('input, select, textarea').value;
+                }
+            }
+            return values;
+        }
+
+        form.addEventListener('submit', event => {
+            event.preventDefault();
+            vscode.postMessage({ type: 'submit', values: collectValues() });
+        });
+        document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+        for (const button of document.querySelectorAll('[data-browse]')) {
+            button.addEventListener('click', () => vscode.postMessage({ type: 'browse', field: button.dataset.browse }));
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'errors') {
+                let first;
+                for (const element of fieldElements) {
+                    const error = message.errors[element.dataset.field] || '';
+                    element.querySelector('.error').textContent = error;
+                    element.classList.toggle('invalid', !!error);
+                    first = first || (error ? element : undefined);
+                }
+                first?.querySelector('input, select, textarea')?.focus();
+            } else if (message.type === 'setValue') {
+                const element = fieldElements.find(e => e.dataset.field === message.field);
+                if (element) {
+                    element.querySelector('input').value = message.value;
+                }
+            }
+        });
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Renders a field with its label, input, description and (empty) error line
+ */
+function renderField(field: FormField, index: number): string {
+    const { property } = field;
+    const id = `field-${index}`;
+    const name = escapeHtml(field.name);
+    const defaultValue = property.default;
+    const text = typeof defaultValue === 'string' || typeof defaultValue === 'number' ? escapeHtml(String(defaultValue)) : '';
+    const placeholder = property.placeholder ? ` placeholder="${escapeHtml(property.placeholder)}"` : '';
+    const label = `${escapeHtml(field.label)}${field.required ? ' <span class="required">*</span>' : ''}`;
+
+    let input: string;
+    switch (field.kind) {
+        case 'multiline':
+            input = `<textarea id="${id}"${placeholder}>${text}</textarea>`;
+            break;
+        case 'number':
+            input = `<input type="number" id="${id}" value="${text}"${placeholder}`
+                + `${property.minimum !== undefined ? ` min="${property.minimum}"` : ''}`
+                + `${property.maximum !== undefined ? ` max="${property.maximum}"` : ''}`
+                + `${property.type === 'integer' ? ' step="1"' : ' step="any"'}>`;
+            break;
+        case 'boolean':
+            return `<div class="field" data-field="${name}" data-kind="boolean">
+            <label class="choice"><input type="checkbox" id="${id}"${defaultValue === true ? ' checked' : ''}> ${label}</label>
+            ${renderDescription(field)}<div class="error"></div>
+        </div>`;
+        case 'select':
+            input = `<select id="${id}">${field.required && typeof defaultValue !== 'string' ? '<option value="" selected disabled></option>' : field.required ? '' : '<option value=""></option>'}`
+                + (property.enum ?? []).map(option => `<option value="${escapeHtml(option)}"${option === defaultValue ? ' selected' : ''}>${escapeHtml(option)}</option>`).join('')
+                + '</select>';
+            break;
+        case 'multiSelect': {
+            const selected = Array.isArray(defaultValue) ? defaultValue : [];
+            return `<div class="field" data-field="${name}" data-kind="multiSelect" role="group" aria-labelledby="${id}">
+            <span class="label" id="${id}">${label}</span>
+            ${(property.items?.enum ?? []).map(option => `<label class="choice"><input type="checkbox" value="${escapeHtml(option)}"${selected.includes(option) ? ' checked' : ''}> ${escapeHtml(option)}</label>`).join('\n            ')}
+            ${renderDescription(field)}<div class="error"></div>
+        </div>`;
+        }
+        case 'color':
+            input = `<input type="color" id="${id}" value="${text || '#000000'}">`;
+            break;
+        case 'file':
+        case 'folder':
+            input = `<div class="path"><input type="text" id="${id}" value="${text}"${placeholder}><button type="button" class="secondary" data-browse="${name}">Browse…</button></div>`;
+            break;
+        default:
+            input = `<input type="text" id="${id}" value="${text}"${placeholder}>`;
+    }
+
+    return `<div class="field" data-field="${name}" data-kind="${field.kind}">
+            <label for="${id}">${label}</label>
+            ${input}
+            ${renderDescription(field)}<div class="error"></div>
+        </div>`;
+}
+
+function renderDescription(field: FormField): string {
+    return field.property.description ? `<div class="description">${escapeHtml(field.property.description)}</div>` : '';
+}
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { askForText } from './textInput';
+
+/**
+ * An option of `kazo_select_option`. Plain strings are options whose id is their label.
+ */
+export interface SelectOption {
+    /** Returned when the option is picked, the label when absent */
+    id?: string;
+    label: string;
+    /** Shown next to the label, e.g. a short trade-off */
+    description?: string;
+    /** Shown on a line below the label */
+    detail?: string;
+    /** Codicon name, e.g. `rocket` or `$(rocket)` */
+    icon?: string;
+    /** Preselected when several options can be picked */
+    picked?: boolean;
+    /** Starts a group titled `label` instead of being an option */
+    separator?: boolean;
+}
+
+export interface OptionPickerInput {
+    title: string;
+    options: (string | SelectOption)[];
+    placeholder?: string;
+    canSelectMany?: boolean;
+    /** Add an "Other…" item answered with free text */
+    allowOther?: boolean;
+    otherPrompt?: string;
+    /** Add a "Reply with a sketch" item */
+    allowSketch?: boolean;
+}
+
+/**
+ * What the user picked: option ids, plus the "Other…" text and whether they want to reply with a sketch
+ */
+export interface OptionPick {
+    ids: string[];
+    other?: string;
+    sketch: boolean;
+}
+
+interface OptionItem extends vscode.QuickPickItem {
+    optionId?: string;
+    special?: 'other' | 'sketch';
+}
+
+const SKETCH_LABEL = '🎨 Reply with a sketch...';
+const OTHER_LABEL = '$(edit) Other…';
+
+/**
+ * Checks the options sent by the AI and returns them as QuickPick items.
+ * Throws when there is nothing to pick or ids are ambiguous.
+ */
+export function toOptionItems(options: (string | SelectOption)[]): OptionItem[] {
+    const ids = new Set<string>();
+    const items = (options ?? []).map((option, index): OptionItem => {
+        const normalized = typeof option === 'string' ? { label: option } : option;
+        if (!normalized || typeof normalized.label !== 'string') {
+            throw new Error(`Option ${index + 1} needs a label`);
+        }
+        if (normalized.separator) {
+            return { label: normalized.label, kind: vscode.QuickPickItemKind.Separator };
+        }
+
+        const id = normalized.id ?? normalized.label;
+        if (ids.has(id)) {
+            throw new Error(`Option id "${id}" is used more than once`);
+        }
+        ids.add(id);
+
+        const icon = normalized.icon?.replace(/^\$\((.*)\)$/, '$1');
+        return {
+            label: icon ? `$(${icon}) ${normalized.label}` : normalized.label,
+            description: normalized.description,
+            detail: normalized.detail,
+            picked: normalized.picked,
+            optionId: id
+        };
+    });
+
+    if (ids.size === 0) {
+        throw new Error('No options provided');
+    }
+    return items;
+}
+
+/**
+ * Shows the options in a QuickPick and asks for the "Other…" text when it is picked.
+ * Returns undefined when the user cancels.
+ */
+export async function pickOptions(input: OptionPickerInput, token: vscode.CancellationToken): Promise<OptionPick | undefined> {
+    const items = toOptionItems(input.options);
+    const extras: OptionItem[] = [
+        ...(input.allowOther ? [{ label: OTHER_LABEL, alwaysShow: true, special: 'other' as const }] : []),
+        ...(input.allowSketch ? [{ label: SKETCH_LABEL, alwaysShow: true, special: 'sketch' as const }] : [])
+    ];
+    if (extras.length > 0) {
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator }, ...extras);
+    }
+
+    const quickPickOptions = { title: input.title, matchOnDescription: true, matchOnDetail: true, ignoreFocusOut: true };
+    const picked = input.canSelectMany
+        ? await vscode.window.showQuickPick(items, { ...quickPickOptions, placeHolder: input.placeholder || 'Select one or more options', canPickMany: true }, token)
+        : await vscode.window.showQuickPick(items, { ...quickPickOptions, placeHolder: input.placeholder || 'Select an option' }, token);
+    if (picked === undefined) {
+        return undefined;
+    }
+
+    const selection = Array.isArray(picked) ? picked : [picked];
+    const pick: OptionPick = {
+        ids: selection.flatMap(item => item.optionId !== undefined ? [item.optionId] : []),
+        sketch: selection.some(item => item.special === 'sketch')
+    };
+
+    if (selection.some(item => item.special === 'other')) {
+        pick.other = await askForText({ title: input.title, prompt: input.otherPrompt || 'Enter your answer', required: true }, token);
+        if (pick.other === undefined) {
+            return undefined;
+        }
+    }
+    return pick;
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { TextConstraints, validateText } from './textValidation';
+
+export interface TextInputOptions extends TextConstraints {
+    title: string;
+    prompt?: string;
+    placeholder?: string;
+    defaultValue?: string;
+    password?: boolean;
+    /** Answer in an editor instead of a single-line input box */
+    multiline?: boolean;
+}
+
+/**
+ * A multi-line answer being written in an untitled editor
+ */
+interface PendingTextInput {
+    document: vscode.TextDocument;
+    options: TextInputOptions;
+    resolve: (value: string | undefined) => void;
+}
+
+/** Context key set while a multi-line answer is pending, for the Submit/Cancel title buttons */
+const CONTEXT_KEY = 'kazoDesign.textInputActive';
+
+const pendingInputs = new Map<string, PendingTextInput>();
+let diagnostics: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Asks the user for text that satisfies the constraints, checking it as they type.
+ * Returns undefined when the user cancels.
+ */
+export function askForText(options: TextInputOptions, token: vscode.CancellationToken): Promise<string | undefined> {
+    if (options.multiline && !options.password) {
+        return askInEditor(options, token);
+    }
+    return Promise.resolve(vscode.window.showInputBox({
+        title: options.title,
+        prompt: options.prompt || options.title,
+        placeHolder: options.placeholder,
+        value: options.defaultValue,
+        password: options.password || false,
+        ignoreFocusOut: true,
+        validateInput: value => validateText(value, options)
+    }, token));
+}
+
+/**
+ * `kazoDesign.textInput.submit`: returns the answer in the editor, unless it is invalid
+ */
+export async function submitTextInput(uri?: vscode.Uri): Promise<void> {
+    const input = findPendingInput(uri);
+    if (!input) {
+        return;
+    }
+    const text = input.document.getText();
+    const error = validateText(text, input.options);
+    if (error) {
+        vscode.window.showErrorMessage(`${input.options.title}: ${error}`);
+        return;
+    }
+    await finishInput(input, text);
+}
+
+/**
+ * `kazoDesign.textInput.cancel`: closes the editor without answering
+ */
+export async function cancelTextInput(uri?: vscode.Uri): Promise<void> {
+    const input = findPendingInput(uri);
+    if (input) {
+        await finishInput(input, undefined);
+    }
+}
+
+async function askInEditor(options: TextInputOptions, token: vscode.CancellationToken): Promise<string | undefined> {
+    const document = await vscode.workspace.openTextDocument({ content: options.defaultValue ?? '', language: 'markdown' });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    return new Promise(resolve => {
+        const key = document.uri.toString();
+        const subscriptions: vscode.Disposable[] = [];
+        const input: PendingTextInput = {
+            document,
+            options,
+            resolve: value => {
+                subscriptions.forEach(subscription => subscription.dispose());
+                pendingInputs.delete(key);
+                diagnostics?.delete(document.uri);
+                updateContext();
+                resolve(value);
+            }
+        };
+        pendingInputs.set(key, input);
+        updateContext();
+        showDiagnostics(input);
+
+        subscriptions.push(
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.document === document) {
+                    showDiagnostics(input);
+                }
+            }),
+            // Closing the editor (and discarding the text) cancels the answer
+            vscode.workspace.onDidCloseTextDocument(closed => {
+                if (closed === document && pendingInputs.get(key) === input) {
+                    input.resolve(undefined);
+                }
+            }),
+            token.onCancellationRequested(() => void finishInput(input, undefined))
+        );
+
+        const instructions = `${options.title}${options.prompt ? `: ${options.prompt}` : ''}`;
+        void vscode.window.showInformationMessage(
+            `${instructions}\nWrite your answer in the editor, then choose Submit (✓ in the editor title bar).`,
+            'Submit',
+            'Cancel'
+        ).then(choice => {
+            if (choice === 'Submit') {
+                void submitTextInput(document.uri);
+            } else if (choice === 'Cancel') {
+                void cancelTextInput(document.uri);
+            }
+        });
+    });
+}
+
+/**
+ * Resolves an answer and closes its editor without asking to save
+ */
+async function finishInput(input: PendingTextInput, value: string | undefined): Promise<void> {
+    if (pendingInputs.get(input.document.uri.toString()) !== input) {
+        return;
+    }
+    input.resolve(value);
+    if (!input.document.isClosed) {
+        await vscode.window.showTextDocument(input.document, { preview: false });
+        await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+    }
+}
+
+function findPendingInput(uri?: vscode.Uri): PendingTextInput | undefined {
+    const key = (uri ?? vscode.window.activeTextEditor?.document.uri)?.toString();
+    return key ? pendingInputs.get(key) : undefined;
+}
+
+/**
+ * Shows why the current text is invalid as a diagnostic at the start of the editor
+ */
+function showDiagnostics(input: PendingTextInput): void {
+    const error = validateText(input.document.getText(), input.options);
+    diagnostics ??= vscode.languages.createDiagnosticCollection('kazoDesign.textInput');
+    diagnostics.set(input.document.uri, error
+        ? [new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), `${input.options.title}: ${error}`, vscode.DiagnosticSeverity.Error)]
+        : []);
+}
+
+function updateContext(): void {
+    void vscode.commands.executeCommand('setContext', CONTEXT_KEY, pendingInputs.size > 0);
+}
@@ -0,0 +1,94 @@
+/**
+ * Constraints on free-text answers, shared by `kazo_request_text` and the text fields of `kazo_request_form`
+ */
+
+/**
+ * Well-known shapes a text answer can be required to have
+ */
+export type TextFormat = 'email' | 'url' | 'semver' | 'identifier' | 'number';
+
+export interface TextConstraints {
+    required?: boolean;
+    /** Regular expression the value must match (anywhere, like JSON Schema) */
+    pattern?: string;
+    /** Message shown when `pattern` does not match */
+    errorMessage?: string;
+    minLength?: number;
+    maxLength?: number;
+    format?: TextFormat;
+}
+
+const TEXT_FORMATS: Record<TextFormat, { test: (value: string) => boolean; message: string }> = {
+    email: {
+        test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+        message: 'Enter an email address, e.g. name@example.com'
+    },
+    url: {
+        test: value => /^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(value) && canParseUrl(value),
+        message: 'Enter a URL, e.g. https://example.com'
+    },
+    semver: {
+        test: value => /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-[0-9a-z-]+(\.[0-9a-z-]+)*)?(\+[0-9a-z-]+(\.[0-9a-z-]+)*)?$/i.test(value),
+        message: 'Enter a semantic version, e.g. 1.2.3'
+    },
+    identifier: {
+        test: value => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value),
+        message: 'Enter an identifier: letters, digits, _ or $, not starting with a digit'
+    },
+    number: {
+        test: value => value.trim().length > 0 && Number.isFinite(Number(value)),
+        message: 'Enter a number'
+    }
+};
+
+function canParseUrl(value: string): boolean {
+    try {
+        new URL(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks constraints given by the AI, throwing when they can't be applied
+ */
+export function checkTextConstraints(constraints: TextConstraints): void {
+    if (constraints.format !== undefined && !Object.prototype.hasOwnProperty.call(TEXT_FORMATS, constraints.format)) {
+        throw new Error(`Unsupported format "${constraints.format}" (use ${Object.keys(TEXT_FORMATS).join(', ')})`);
+    }
+    if (constraints.pattern !== undefined) {
+        try {
+            new RegExp(constraints.pattern);
+        } catch {
+            throw new Error(`Invalid pattern: ${constraints.pattern}`);
+        }
+    }
+}
+
+/**
+ * Returns why a value breaks the constraints, or undefined when it is valid.
+ * Empty values are only rejected when required.
+ */
+export function validateText(value: string, constraints: TextConstraints): string | undefined {
+    if (value.trim().length === 0) {
+        return constraints.required ? 'An answer is required' : undefined;
+    }
+    if (constraints.minLength !== undefined && value.length < constraints.minLength) {
+        return `Enter at least ${pluralize(constraints.minLength, 'character')}`;
+    }
+    if (constraints.maxLength !== undefined && value.length > constraints.maxLength) {
+        return `Enter at most ${pluralize(constraints.maxLength, 'character')}`;
+    }
+    if (constraints.format !== undefined && !TEXT_FORMATS[constraints.format].test(value)) {
+        return TEXT_FORMATS[constraints.format].message;
+    }
+    if (constraints.pattern !== undefined && !new RegExp(constraints.pattern).test(value)) {
+        return constraints.errorMessage || `Must match the pattern ${constraints.pattern}`;
+    }
+    return undefined;
+}
+
+export function pluralize(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DesignDocument, ElementType, createDesignDocument, serializeDesignDocument } from './designDocument';
+import { getBounds } from './designLayout';
+
+/**
+ * Annotation of images (screenshots of the current UI, photos of whiteboards...):
+ * the image becomes the locked background of a new design, sized to the image,
+ * so annotations are positioned in image pixels.
+ */
+
+/**
+ * An image read for annotation
+ */
+export interface AnnotationImage {
+    fileName: string;
+    /** The image as a data URI, which the editor's CSP allows */
+    dataUri: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * A shape drawn over the image, in image pixels
+ */
+export interface ImageAnnotation {
+    id: string;
+    type: ElementType;
+    name?: string;
+    description?: string;
+    /** Content of text labels */
+    text?: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Start and end of lines and arrows */
+    from?: { x: number; y: number };
+    to?: { x: number; y: number };
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp'
+};
+
+/** Extensions of the images that can be annotated, without the dot */
+export const ANNOTATION_IMAGE_EXTENSIONS = Object.keys(IMAGE_TYPES);
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Reads an image file and measures it. Throws for unsupported or unreadable images.
+ */
+export async function readAnnotationImage(uri: vscode.Uri): Promise<AnnotationImage> {
+    const fileName = path.posix.basename(uri.path);
+    const extension = path.posix.extname(fileName).slice(1).toLowerCase();
+    const mimeType = IMAGE_TYPES[extension];
+    if (!mimeType) {
+        throw new Error(`Cannot annotate ${fileName}: supported images are ${ANNOTATION_IMAGE_EXTENSIONS.join(', ')}`);
+    }
+
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    if (bytes.length > MAX_IMAGE_BYTES) {
+        throw new Error(`Cannot annotate ${fileName}: images must be smaller than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+    }
+    const size = getImageSize(bytes);
+    if (!size) {
+        throw new Error(`Cannot annotate ${fileName}: the file is not a valid ${extension.toUpperCase()} image`);
+    }
+
+    return {
+        fileName,
+        dataUri: `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`,
+        ...size
+    };
+}
+
+/**
+ * Builds the design JSON of an annotation: an empty canvas the size of the
+ * image, with the image as its locked background
+ */
+export function createAnnotationDesign(image: AnnotationImage, title?: string, prompt?: string): string {
+    const document = createDesignDocument({
+        title: title || `Annotations of ${image.fileName}`,
+        prompt,
+        canvasWidth: image.width,
+        canvasHeight: image.height,
+        backgroundColor: '#ffffff'
+    });
+    return serializeDesignDocument({ ...document, backgroundImage: image.dataUri });
+}
+
+/**
+ * Removes the background image from the SVG of an annotated design, so the
+ * image's data URI does not go back to the AI as text. Other images are kept.
+ */
+export function removeBackgroundImage(svg: string, dataUri: string): string {
+    return svg.replace(/\s*<image\b[^>]*>(?:\s*<\/image>)?/g, tag => {
+        const href = /\s(?:xlink:)?href="([^"]*)"/.exec(tag)?.[1];
+        return href?.replace(/&amp;/g, '&') === dataUri ? '' : tag;
+    });
+}
+
+/**
+ * Lists the shapes drawn over the image with their bounds, line ends and text
+ */
+export function listAnnotations(document: DesignDocument): ImageAnnotation[] {
+    return document.elements.map(element => {
+        const bounds = getBounds(element);
+        return {
+            id: element.id,
+            type: element.$type,
+            name: element.name || undefined,
+            description: element.description || undefined,
+            text: element.$type === 'text' ? element.content : undefined,
+            x: Math.round(bounds.x),
+            y: Math.round(bounds.y),
+            width: Math.round(bounds.width),
+            height: Math.round(bounds.height),
+            from: element.$type === 'line' ? { x: Math.round(element.x), y: Math.round(element.y) } : undefined,
+            to: element.$type === 'line' ? { x: Math.round(element.x2), y: Math.round(element.y2) } : undefined
+        };
+    });
+}
+
+/**
+ * `Kazo Design: Annotate Image`: opens the given image (or one chosen by the
+ * user) as the locked background of a new design. `openDesign` receives the design JSON.
+ */
+export async function annotateImageInteractively(openDesign: (json: string) => void, uri?: vscode.Uri): Promise<void> {
+    let source = uri;
+    if (!source) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Annotate',
+            title: 'Annotate Image',
+            filters: { Images: ANNOTATION_IMAGE_EXTENSIONS }
+        });
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        source = picked[0];
+    }
+
+    try {
+        openDesign(createAnnotationDesign(await readAnnotationImage(source)));
+    } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Reads the pixel size from the header of a PNG, JPEG, GIF, WebP or BMP image
+ */
+function getImageSize(bytes: Uint8Array): { width: number; height: number } | undefined {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    try {
+        if (bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+            return valid(view.getUint32(16), view.getUint32(20));
+        }
+        if (ascii(0, 4) === 'GIF8') {
+            return valid(view.getUint16(6, true), view.getUint16(8, true));
+        }
+        if (ascii(0, 2) === 'BM') {
+            return valid(view.getInt32(18, true), Math.abs(view.getInt32(22, true)));
+        }
+        if (ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+            switch (ascii(12, 4)) {
+                case 'VP8 ':
+                    return valid(view.getUint16(26, true) & 0x3fff, view.getUint16(28, true) & 0x3fff);
+                case 'VP8L': {
+                    const bits = view.getUint32(21, true);
+                    return valid((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1);
+                }
+                case 'VP8X':
+                    return valid(getUint24(view, 24) + 1, getUint24(view, 27) + 1);
+            }
+            return undefined;
+        }
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+            return getJpegSize(view);
+        }
+    } catch {
+        // Truncated header
+    }
+    return undefined;
+}
+
+/**
+ * Walks the JPEG markers up to the start of frame, which holds the size
+ */
+function getJpegSize(view: DataView): { width: number; height: number } | undefined {
+    let offset = 2;
+    while (offset + 9 < view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) {
+            return undefined;
+        }
+        const marker = view.getUint8(offset + 1);
+        if (marker === 0xff) {
+            // Fill byte before a marker
+            offset++;
+            continue;
+        }
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return valid(view.getUint16(offset + 7), view.getUint16(offset + 5));
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return undefined;
+}
+
+function getUint24(view: DataView, offset: number): number {
+    return view.getUint16(offset, true) | (view.getUint8(offset + 2) << 16);
+}
+
+function valid(width: number, height: number): { width: number; height: number } | undefined {
+    return width > 0 && height > 0 ? { width, height } : undefined;
+}
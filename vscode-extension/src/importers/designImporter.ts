@@ -0,0 +1,46 @@
+import { DesignInput } from '../designDocument';
+import { DrawioImporter } from './drawioImporter';
+import { ExcalidrawImporter } from './excalidrawImporter';
+import { SvgImporter } from './svgImporter';
+
+/**
+ * Import of designs made in other tools.
+ *
+ * An importer converts a file from another tool into design input, which
+ * `createDesignDocument` completes with the editor's defaults. Importers are
+ * pure functions of the file content; anything they cannot convert is
+ * reported as a warning instead of failing the import. This folder must not
+ * import `vscode`.
+ */
+
+/**
+ * Result of converting a file
+ */
+export interface ImportResult {
+    design: DesignInput;
+    /** Constructs that were skipped or approximated */
+    warnings: string[];
+}
+
+/**
+ * Converts files of one format into designs
+ */
+export interface DesignImporter {
+    readonly id: string;
+    /** Name shown to the user */
+    readonly label: string;
+    /** File extensions handled, without the dot */
+    readonly extensions: readonly string[];
+    /** Throws when the content is not a valid file of this format */
+    import(content: string, fileName: string): ImportResult;
+}
+
+export const DESIGN_IMPORTERS: readonly DesignImporter[] = [new ExcalidrawImporter(), new DrawioImporter(), new SvgImporter()];
+
+/**
+ * Returns the importer handling a file name, e.g. `wireframe.excalidraw`
+ */
+export function findDesignImporter(fileName: string): DesignImporter | undefined {
+    const lower = fileName.toLowerCase();
+    return DESIGN_IMPORTERS.find(importer => importer.extensions.some(extension => lower.endsWith(`.${extension}`)));
+}
@@ -0,0 +1,336 @@
+import { inflateRawSync } from 'zlib';
+import { DesignImporter, ImportResult } from './designImporter';
+import { ImportWarnings, fitToCanvas, readKazoData, stripHtml, titleFromFileName } from './importHelpers';
+import { XmlElement, childElements, parseXml } from './xml';
+
+/**
+ * A draw.io cell with its geometry on the canvas, or on the canvas of the View it is drawn on
+ */
+interface Cell {
+    id: string;
+    parent?: string;
+    value: string;
+    /** Name, meaning and description stored as shape data by Kazo's exporter */
+    data: { name?: string; meaning?: string; description?: string };
+    /** Name of the View whose container holds the cell */
+    view?: string;
+    style: Record<string, string>;
+    vertex: boolean;
+    edge: boolean;
+    source?: string;
+    target?: string;
+    geometry?: XmlElement;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Shapes imported as rectangles without a warning */
+const RECTANGLE_SHAPES = ['', 'rect', 'rectangle', 'label', 'swimlane', 'process', 'group', 'table', 'tableRow', 'partialRectangle'];
+
+/**
+ * Imports draw.io diagrams (`.drawio` XML, plain or compressed)
+ */
+export class DrawioImporter implements DesignImporter {
+    public readonly id = 'drawio';
+    public readonly label = 'draw.io';
+    public readonly extensions = ['drawio', 'dio'];
+
+    public import(content: string, fileName: string): ImportResult {
+        const warnings = new ImportWarnings();
+        const { model, name } = this.readModel(parseXml(content), warnings);
+        const cells = this.readCells(model);
+
+        const elements: Record<string, unknown>[] = [];
+        for (const cell of cells.values()) {
+            if (cell.vertex) {
+                elements.push(...this.convertVertex(cell, warnings));
+            } else if (cell.edge) {
+                const line = this.convertEdge(cell, cells, warnings);
+                if (line) {
+                    elements.push(line);
+                }
+            }
+        }
+
+        const fitted = fitToCanvas(elements);
+        const background = model.attributes.background;
+        return {
+            design: {
+                title: name || titleFromFileName(fileName),
+                backgroundColor: background && background !== 'none' ? background : '#ffffff',
+                canvasWidth: fitted.canvasWidth,
+                canvasHeight: fitted.canvasHeight,
+                elements: fitted.elements
+            },
+            warnings: warnings.toArray()
+        };
+    }
+
+    /**
+     * Finds the graph model of the first page, decompressing it when needed
+     */
+    private readModel(root: XmlElement, warnings: ImportWarnings): { model: XmlElement; name?: string } {
+        if (root.name === 'mxGraphModel') {
+            return { model: root };
+        }
+        if (root.name !== 'mxfile') {
+            throw new Error(`Not a draw.io file: unexpected root element <${root.name}>`);
+        }
+
+        const diagrams = childElements(root, 'diagram');
+        if (diagrams.length === 0) {
+            throw new Error('Not a draw.io file: no <diagram> found');
+        }
+        if (diagrams.length > 1) {
+            warnings.add(`Only the first of ${diagrams.length} pages was imported`);
+        }
+
+        const diagram = diagrams[0];
+        const inline = childElements(diagram, 'mxGraphModel')[0];
+        if (inline) {
+            return { model: inline, name: diagram.attributes.name };
+        }
+
+        // Compressed pages are deflated, base64-encoded and URI-encoded XML
+        try {
+            const xml = decodeURIComponent(inflateRawSync(Buffer.from(diagram.text.trim(), 'base64')).toString('utf-8'));
+            return { model: parseXml(xml), name: diagram.attributes.name };
+        } catch (error) {
+            throw new Error(`Could not decompress the draw.io page: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Reads all cells, resolving geometry relative to parent containers into canvas coordinates
+     */
+    private readCells(model: XmlElement): Map<string, Cell> {
+        const root = childElements(model, 'root')[0];
+        const cells = new Map<string, Cell>();
+        for (const element of root?.children ?? []) {
+            // Cells may be wrapped in <UserObject>/<object> elements carrying a label
+            const cellElement = element.name === 'mxCell' ? element : childElements(element, 'mxCell')[0];
+            if (!cellElement) {
+                continue;
+            }
+            const data = element === cellElement ? {} : element.attributes;
+            const attributes = { ...cellElement.attributes, ...data };
+            const geometry = childElements(cellElement, 'mxGeometry')[0];
+            const id = attributes.id ?? '';
+            cells.set(id, {
+                id,
+                parent: attributes.parent,
+                value: stripHtml(attributes.label ?? attributes.value ?? ''),
+                data: readKazoData(data.name, data.meaning, data.description),
+                style: parseStyle(attributes.style ?? ''),
+                vertex: attributes.vertex === '1',
+                edge: attributes.edge === '1',
+                source: attributes.source,
+                target: attributes.target,
+                geometry,
+                x: number(geometry?.attributes.x),
+                y: number(geometry?.attributes.y),
+                width: number(geometry?.attributes.width),
+                height: number(geometry?.attributes.height)
+            });
+        }
+
+        // Children of vertices (containers, groups) are positioned relative to them.
+        // Containers exported from Views are the View's own canvas, so their children keep their coordinates.
+        const resolved = new Map<string, { x: number; y: number; view?: string }>();
+        const resolve = (cell: Cell, depth: number): { x: number; y: number; view?: string } => {
+            const known = resolved.get(cell.id);
+            if (known) {
+                return known;
+            }
+            const parent = cell.parent ? cells.get(cell.parent) : undefined;
+            let origin: { x: number; y: number; view?: string } = { x: 0, y: 0 };
+            if (parent?.vertex && isView(parent)) {
+                origin = { x: 0, y: 0, view: parent.data.name };
+            } else if (parent?.vertex && depth < 50) {
+                origin = resolve(parent, depth + 1);
+            }
+            const position = { x: origin.x + (cell.edge ? 0 : cell.x), y: origin.y + (cell.edge ? 0 : cell.y), view: origin.view };
+            resolved.set(cell.id, position);
+            return position;
+        };
+        for (const cell of cells.values()) {
+            // Edges keep the origin of their parent, which their points are relative to
+            const position = resolve(cell, 0);
+            cell.x = position.x;
+            cell.y = position.y;
+            cell.view = position.view;
+        }
+        return cells;
+    }
+
+    private convertVertex(cell: Cell, warnings: ImportWarnings): Record<string, unknown>[] {
+        const { style, x, y, width, height } = cell;
+        const fill = color(style.fillColor, '#ffffff');
+        const stroke = color(style.strokeColor, '#000000');
+        const strokeWidth = number(style.strokeWidth, 1);
+        const shape = style.shape ?? (style.ellipse !== undefined ? 'ellipse' : style.text !== undefined ? 'text' : style.image !== undefined ? 'image' : '');
+        // A swimlane's label is its title
+        const title = style.swimlane !== undefined || shape === 'swimlane' ? cell.value : undefined;
+        const base = { id: cell.id, name: cell.data.name ?? title, meaning: cell.data.meaning, description: cell.data.description, parent: cell.view };
+
+        if (style.rotation && number(style.rotation) !== 0) {
+            warnings.add('Rotation was ignored');
+        }
+
+        const elements: Record<string, unknown>[] = [];
+        let label = cell.value;
+        switch (shape) {
+            case 'text':
+                if (label) {
+                    elements.push({ ...this.createLabel(cell, label, warnings), ...base });
+                    label = '';
+                }
+                break;
+            case 'ellipse':
+                if (Math.abs(width - height) > 1) {
+                    warnings.add('Ellipses were imported as circles');
+                }
+                elements.push({ type: 'circle', ...base, x: x + width / 2, y: y + height / 2, radius: (width + height) / 4, fill, stroke, strokeWidth });
+                break;
+            case 'image':
+                if (style.image) {
+                    // Styles can't contain ';', so draw.io writes data URIs without ';base64'
+                    const source = style.image.replace(/^data:([\w/+.-]+),/, 'data:$1;base64,');
+                    elements.push({ type: 'image', ...base, x, y, width, height, source });
+                } else {
+                    elements.push({ type: 'rectangle', ...base, x, y, width, height, fill: 'transparent', stroke, strokeWidth, meaning: base.meaning ?? 'ImagePlaceholder' });
+                }
+                break;
+            default:
+                if (!RECTANGLE_SHAPES.includes(shape) && style.swimlane === undefined) {
+                    warnings.add(`Shape "${shape}" was imported as a rectangle`);
+                }
+                elements.push({
+                    type: 'rectangle', ...base, x, y, width, height, fill, stroke, strokeWidth,
+                    cornerRadius: style.rounded === '1' ? Math.min(width, height) * 0.15 : 0,
+                    meaning: base.meaning ?? (title !== undefined || style.container === '1' ? 'Panel' : undefined)
+                });
+                if (title) {
+                    label = '';
+                }
+        }
+
+        if (label) {
+            elements.push(this.createLabel(cell, label, warnings));
+        }
+        return elements;
+    }
+
+    /**
+     * Creates a text element for a cell's label, centered the way draw.io shows it
+     */
+    private createLabel(cell: Cell, label: string, warnings: ImportWarnings): Record<string, unknown> {
+        const fontSize = number(cell.style.fontSize, 12);
+        if (label.includes('\n')) {
+            warnings.add('Multi-line labels were joined into one line');
+        }
+        const content = label.replace(/\n/g, ' ');
+        const textWidth = content.length * fontSize * 0.55;
+        const align = cell.style.align ?? (cell.style.text !== undefined ? 'left' : 'center');
+        const x = align === 'left' ? cell.x : align === 'right' ? cell.x + cell.width - textWidth : cell.x + (cell.width - textWidth) / 2;
+
+        return {
+            type: 'text',
+            parent: cell.view,
+            x,
+            y: cell.y + cell.height / 2 + fontSize * 0.35,
+            content,
+            fontSize,
+            fill: color(cell.style.fontColor, '#000000'),
+            fontWeight: (number(cell.style.fontStyle) & 1) === 1 ? 'bold' : 'normal'
+        };
+    }
+
+    private convertEdge(cell: Cell, cells: Map<string, Cell>, warnings: ImportWarnings): Record<string, unknown> | undefined {
+        const points = cell.geometry ? childElements(cell.geometry, 'mxPoint') : [];
+        const point = (as: string) => {
+            const found = points.find(p => p.attributes.as === as);
+            return found ? { x: number(found.attributes.x), y: number(found.attributes.y) } : undefined;
+        };
+        const center = (id?: string) => {
+            const end = id ? cells.get(id) : undefined;
+            return end?.vertex ? { x: end.x + end.width / 2, y: end.y + end.height / 2 } : undefined;
+        };
+
+        const start = center(cell.source) ?? point('sourcePoint');
+        const end = center(cell.target) ?? point('targetPoint');
+        // Explicit points are relative to the edge's parent container
+        if (start && !cell.source) {
+            start.x += cell.x;
+            start.y += cell.y;
+        }
+        if (end && !cell.target) {
+            end.x += cell.x;
+            end.y += cell.y;
+        }
+        if (!start || !end) {
+            warnings.add('Skipped connectors without both ends');
+            return undefined;
+        }
+        if (cell.geometry && childElements(cell.geometry, 'Array').length > 0) {
+            warnings.add('Connector waypoints were dropped');
+        }
+        if (cell.value) {
+            warnings.add('Connector labels were dropped');
+        }
+
+        return {
+            type: 'line',
+            id: cell.id,
+            ...cell.data,
+            parent: cell.view,
+            x: start.x,
+            y: start.y,
+            x2: end.x,
+            y2: end.y,
+            stroke: color(cell.style.strokeColor, '#000000'),
+            strokeWidth: number(cell.style.strokeWidth, 1),
+            strokeDashArray: cell.style.dashed === '1' ? '8,4' : undefined
+        };
+    }
+}
+
+/**
+ * Whether a cell is the container Kazo exports for a View
+ */
+function isView(cell: Cell): boolean {
+    return cell.data.meaning === 'View' && !!cell.data.name;
+}
+
+/**
+ * Parses a draw.io style (`rounded=1;fillColor=#fff;ellipse;`) into key/value pairs; bare keys map to ''
+ */
+function parseStyle(style: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const part of style.split(';')) {
+        if (!part) {
+            continue;
+        }
+        const equals = part.indexOf('=');
+        if (equals < 0) {
+            result[part] = '';
+        } else {
+            result[part.slice(0, equals)] = part.slice(equals + 1);
+        }
+    }
+    return result;
+}
+
+function number(value: string | undefined, fallback = 0): number {
+    const parsed = value === undefined ? NaN : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function color(value: string | undefined, fallback: string): string {
+    if (value === undefined || value === 'default') {
+        return fallback;
+    }
+    return value === 'none' ? 'transparent' : value;
+}
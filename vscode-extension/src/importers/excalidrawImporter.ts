@@ -0,0 +1,204 @@
+import { DesignImporter, ImportResult } from './designImporter';
+import { ImportWarnings, fitToCanvas, moveElement, readKazoData, titleFromFileName } from './importHelpers';
+
+/**
+ * Element of an `.excalidraw` scene (only the properties the import uses)
+ */
+interface ExcalidrawElement {
+    id?: string;
+    type?: string;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    angle?: number;
+    strokeColor?: string;
+    backgroundColor?: string;
+    strokeWidth?: number;
+    strokeStyle?: string;
+    roundness?: unknown;
+    isDeleted?: boolean;
+    text?: string;
+    fontSize?: number;
+    points?: [number, number][];
+    startArrowhead?: string | null;
+    endArrowhead?: string | null;
+    fileId?: string;
+    name?: string | null;
+    link?: string | null;
+    frameId?: string | null;
+    /** Kazo's exporter stores `kazoName`, `kazoMeaning` and `kazoDescription` here */
+    customData?: Record<string, unknown>;
+}
+
+interface ExcalidrawScene {
+    type?: string;
+    elements?: ExcalidrawElement[];
+    appState?: { viewBackgroundColor?: string };
+    files?: Record<string, { dataURL?: string }>;
+}
+
+/**
+ * A frame exported from a Kazo View: the elements in it are drawn on the View's canvas
+ */
+interface ViewFrame {
+    view: string;
+    x: number;
+    y: number;
+}
+
+/** Excalidraw positions text by its top edge; the baseline sits about 80% down the first line */
+const BASELINE_RATIO = 0.8;
+
+/**
+ * Imports Excalidraw scenes (`.excalidraw` JSON)
+ */
+export class ExcalidrawImporter implements DesignImporter {
+    public readonly id = 'excalidraw';
+    public readonly label = 'Excalidraw';
+    public readonly extensions = ['excalidraw'];
+
+    public import(content: string, fileName: string): ImportResult {
+        let scene: ExcalidrawScene;
+        try {
+            scene = JSON.parse(content) as ExcalidrawScene;
+        } catch (error) {
+            throw new Error(`Not a valid Excalidraw file: ${error instanceof Error ? error.message : error}`);
+        }
+        if (scene.type !== 'excalidraw' || !Array.isArray(scene.elements)) {
+            throw new Error('Not a valid Excalidraw file: missing "type": "excalidraw" or "elements"');
+        }
+
+        const warnings = new ImportWarnings();
+        const viewFrames = this.findViewFrames(scene.elements);
+        const elements: Record<string, unknown>[] = [];
+        for (const element of scene.elements) {
+            if (element.isDeleted || (element.id && viewFrames.has(element.id))) {
+                continue;
+            }
+            const converted = this.convertElement(element, scene, warnings);
+            if (!converted) {
+                continue;
+            }
+            // Elements in a View's frame go back on the View's canvas, in its coordinates
+            const frame = element.frameId ? viewFrames.get(element.frameId) : undefined;
+            elements.push(frame ? { ...moveElement(converted, -frame.x, -frame.y), parent: frame.view } : converted);
+        }
+
+        const fitted = fitToCanvas(elements);
+        return {
+            design: {
+                title: titleFromFileName(fileName),
+                backgroundColor: scene.appState?.viewBackgroundColor ?? '#ffffff',
+                canvasWidth: fitted.canvasWidth,
+                canvasHeight: fitted.canvasHeight,
+                elements: fitted.elements
+            },
+            warnings: warnings.toArray()
+        };
+    }
+
+    /**
+     * Finds the frames Kazo exported for Views: frames named after an element whose meaning is View
+     */
+    private findViewFrames(elements: ExcalidrawElement[]): Map<string, ViewFrame> {
+        const views = new Set(elements
+            .filter(element => !element.isDeleted && element.customData?.kazoMeaning === 'View')
+            .map(element => element.customData?.kazoName));
+
+        const frames = new Map<string, ViewFrame>();
+        for (const element of elements) {
+            if (!element.isDeleted && element.id && (element.type === 'frame' || element.type === 'magicframe') && element.name && views.has(element.name)) {
+                frames.set(element.id, { view: element.name, x: element.x ?? 0, y: element.y ?? 0 });
+            }
+        }
+        return frames;
+    }
+
+    private convertElement(element: ExcalidrawElement, scene: ExcalidrawScene, warnings: ImportWarnings): Record<string, unknown> | undefined {
+        const x = element.x ?? 0;
+        const y = element.y ?? 0;
+        const width = element.width ?? 0;
+        const height = element.height ?? 0;
+        const stroke = element.strokeColor ?? '#1e1e1e';
+        const fill = element.backgroundColor ?? 'transparent';
+        const strokeWidth = element.strokeWidth ?? 2;
+        const data = readKazoData(element.customData?.kazoName, element.customData?.kazoMeaning, element.customData?.kazoDescription);
+        const base: Record<string, unknown> = {
+            id: element.id,
+            name: data.name ?? element.name ?? undefined,
+            meaning: data.meaning,
+            description: data.description
+        };
+
+        if (element.angle) {
+            warnings.add('Rotation was ignored');
+        }
+
+        switch (element.type) {
+            case 'rectangle':
+            case 'frame':
+            case 'magicframe':
+                return {
+                    type: 'rectangle', ...base, x, y, width, height,
+                    fill: element.type === 'rectangle' ? fill : 'transparent',
+                    stroke, strokeWidth,
+                    cornerRadius: element.roundness ? Math.min(width, height) * 0.1 : 0,
+                    meaning: element.type === 'rectangle' ? data.meaning : data.meaning ?? 'Panel'
+                };
+            case 'diamond':
+                warnings.add('Diamonds were imported as rectangles');
+                return { type: 'rectangle', ...base, x, y, width, height, fill, stroke, strokeWidth };
+            case 'ellipse':
+                if (Math.abs(width - height) > 1) {
+                    warnings.add('Ellipses were imported as circles');
+                }
+                return { type: 'circle', ...base, x: x + width / 2, y: y + height / 2, radius: (width + height) / 4, fill, stroke, strokeWidth };
+            case 'line':
+            case 'arrow': {
+                const points = element.points && element.points.length >= 2 ? element.points : [[0, 0], [width, height]] as [number, number][];
+                if (points.length > 2) {
+                    warnings.add('Lines with several segments were imported as straight lines');
+                }
+                if (element.startArrowhead || element.endArrowhead) {
+                    warnings.add('Arrowheads were dropped');
+                }
+                const last = points[points.length - 1];
+                return {
+                    type: 'line', ...base,
+                    x: x + points[0][0], y: y + points[0][1],
+                    x2: x + last[0], y2: y + last[1],
+                    stroke, strokeWidth,
+                    strokeDashArray: element.strokeStyle === 'dashed' ? '8,4' : element.strokeStyle === 'dotted' ? '2,4' : undefined
+                };
+            }
+            case 'text': {
+                const fontSize = element.fontSize ?? 20;
+                const lines = (element.text ?? '').split('\n');
+                if (lines.length > 1) {
+                    warnings.add('Multi-line text was joined into one line');
+                }
+                return {
+                    type: 'text', ...base,
+                    x, y: y + fontSize * BASELINE_RATIO,
+                    content: lines.join(' '),
+                    fontSize, fill: stroke,
+                    textType: element.link ? 'Link' : undefined,
+                    linkUrl: element.link ?? undefined
+                };
+            }
+            case 'image': {
+                const source = element.fileId ? scene.files?.[element.fileId]?.dataURL : undefined;
+                if (!source) {
+                    warnings.add('Images without embedded data were imported as placeholders');
+                }
+                return source
+                    ? { type: 'image', ...base, x, y, width, height, source }
+                    : { type: 'rectangle', ...base, x, y, width, height, fill: 'transparent', stroke, strokeWidth, meaning: data.meaning ?? 'ImagePlaceholder' };
+            }
+            default:
+                warnings.add(`Skipped unsupported "${element.type}" elements`);
+                return undefined;
+        }
+    }
+}
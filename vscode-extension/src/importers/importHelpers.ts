@@ -0,0 +1,122 @@
+/**
+ * Helpers shared by the importers
+ */
+
+/** Margin left around imported shapes, in pixels */
+const CANVAS_MARGIN = 20;
+
+/**
+ * Collects warnings, merging repeated ones into a count
+ */
+export class ImportWarnings {
+    private readonly counts = new Map<string, number>();
+
+    public add(warning: string): void {
+        this.counts.set(warning, (this.counts.get(warning) ?? 0) + 1);
+    }
+
+    public toArray(): string[] {
+        return [...this.counts].map(([warning, count]) => count > 1 ? `${warning} (×${count})` : warning);
+    }
+}
+
+/**
+ * Moves elements so the drawing starts near the top-left corner and sizes the
+ * canvas to fit. Tools like Excalidraw use an unbounded canvas with negative coordinates.
+ * Elements drawn on a View (with a `parent`) are in the View's coordinates and stay where they are.
+ */
+export function fitToCanvas(elements: Record<string, unknown>[]): { elements: Record<string, unknown>[]; canvasWidth: number; canvasHeight: number } {
+    const onCanvas = elements.filter(element => !element.parent);
+    if (onCanvas.length === 0) {
+        return { elements, canvasWidth: 800, canvasHeight: 600 };
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const element of onCanvas) {
+        const [left, top, right, bottom] = getExtent(element);
+        minX = Math.min(minX, left);
+        minY = Math.min(minY, top);
+        maxX = Math.max(maxX, right);
+        maxY = Math.max(maxY, bottom);
+    }
+
+    const dx = CANVAS_MARGIN - minX;
+    const dy = CANVAS_MARGIN - minY;
+    return {
+        elements: elements.map(element => element.parent ? element : moveElement(element, dx, dy)),
+        canvasWidth: Math.ceil(maxX - minX + CANVAS_MARGIN * 2),
+        canvasHeight: Math.ceil(maxY - minY + CANVAS_MARGIN * 2)
+    };
+}
+
+/**
+ * Moves an element in design input form, including the end of lines
+ */
+export function moveElement(element: Record<string, unknown>, dx: number, dy: number): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...element, x: (element.x as number) + dx, y: (element.y as number) + dy };
+    if (element.type === 'line') {
+        result.x2 = (element.x2 as number) + dx;
+        result.y2 = (element.y2 as number) + dy;
+    }
+    return result;
+}
+
+/**
+ * Name, meaning and description Kazo's exporters store with each shape, when they are strings
+ */
+export function readKazoData(name: unknown, meaning: unknown, description: unknown): { name?: string; meaning?: string; description?: string } {
+    const text = (value: unknown) => typeof value === 'string' && value.length > 0 ? value : undefined;
+    return { name: text(name), meaning: text(meaning), description: text(description) };
+}
+
+/**
+ * Left, top, right and bottom of an element in design input form
+ */
+function getExtent(element: Record<string, unknown>): [number, number, number, number] {
+    const x = element.x as number;
+    const y = element.y as number;
+    switch (element.type) {
+        case 'circle': {
+            const radius = element.radius as number;
+            return [x - radius, y - radius, x + radius, y + radius];
+        }
+        case 'line':
+            return [Math.min(x, element.x2 as number), Math.min(y, element.y2 as number), Math.max(x, element.x2 as number), Math.max(y, element.y2 as number)];
+        case 'text': {
+            // Text is positioned at its baseline
+            const fontSize = (element.fontSize as number | undefined) ?? 16;
+            const width = String(element.content ?? '').length * fontSize * 0.55;
+            return [x, y - fontSize, x + width, y + fontSize * 0.3];
+        }
+        default:
+            return [x, y, x + (element.width as number), y + (element.height as number)];
+    }
+}
+
+/**
+ * Title for a design imported from a file: the file name without extension
+ */
+export function titleFromFileName(fileName: string): string {
+    const name = fileName.split(/[\\/]/).pop() ?? fileName;
+    return name.replace(/\.[^.]+$/, '') || 'Imported Design';
+}
+
+/**
+ * Strips HTML markup from labels (draw.io stores rich text as HTML)
+ */
+export function stripHtml(text: string): string {
+    return text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(div|p)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+}
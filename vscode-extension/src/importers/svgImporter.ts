@@ -0,0 +1,257 @@
+import { DesignImporter, ImportResult } from './designImporter';
+import { ImportWarnings, titleFromFileName } from './importHelpers';
+import { XmlElement, parseXml, textContent } from './xml';
+
+/**
+ * Offset applied to an SVG group's children (`translate` transforms)
+ */
+interface Offset {
+    x: number;
+    y: number;
+}
+
+/**
+ * Size that percentages resolve against: the viewBox, or the width and height without one
+ */
+interface Viewport {
+    width: number;
+    height: number;
+}
+
+/** Presentation attributes read from the element, its `style` attribute and its groups */
+type Presentation = Record<string, string>;
+
+const INHERITED_PROPERTIES = ['fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'font-size', 'font-family', 'font-weight'];
+
+/** Elements with no visual output that are skipped silently */
+const IGNORED_ELEMENTS = ['title', 'desc', 'metadata', 'defs', 'style', 'script', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'filter', 'marker', 'symbol'];
+
+/**
+ * Imports the basic shapes of plain SVG files: `<rect>`, `<circle>`, `<ellipse>`,
+ * `<line>`, `<text>` and `<image>`, inside groups moved with `translate`
+ */
+export class SvgImporter implements DesignImporter {
+    public readonly id = 'svg';
+    public readonly label = 'SVG';
+    public readonly extensions = ['svg'];
+
+    public import(content: string, fileName: string): ImportResult {
+        const svg = parseXml(content);
+        if (localName(svg.name) !== 'svg') {
+            throw new Error(`Not an SVG file: unexpected root element <${svg.name}>`);
+        }
+
+        const warnings = new ImportWarnings();
+        const viewBox = (svg.attributes.viewBox ?? '').split(/[\s,]+/).map(parseFloat);
+        const hasViewBox = viewBox.length === 4 && viewBox.every(Number.isFinite);
+        const origin: Offset = hasViewBox ? { x: -viewBox[0], y: -viewBox[1] } : { x: 0, y: 0 };
+
+        const width = length(svg.attributes.width) ?? (hasViewBox ? viewBox[2] : undefined) ?? 800;
+        const height = length(svg.attributes.height) ?? (hasViewBox ? viewBox[3] : undefined) ?? 600;
+        const viewport: Viewport = hasViewBox ? { width: viewBox[2], height: viewBox[3] } : { width, height };
+
+        const elements: Record<string, unknown>[] = [];
+        this.convertChildren(svg, origin, viewport, getPresentation(svg, {}), elements, warnings);
+
+        // A full-canvas rectangle drawn first is the background (Kazo's own exports start with one)
+        let backgroundColor = '#ffffff';
+        const first = elements[0];
+        if (first?.type === 'rectangle' && first.x === 0 && first.y === 0 && first.width === viewport.width && first.height === viewport.height && typeof first.fill === 'string') {
+            backgroundColor = first.fill;
+            elements.shift();
+        }
+
+        const title = svg.children.find(child => localName(child.name) === 'title');
+        return {
+            design: {
+                title: (title && textContent(title).trim()) || titleFromFileName(fileName),
+                backgroundColor,
+                canvasWidth: Math.ceil(width),
+                canvasHeight: Math.ceil(height),
+                elements
+            },
+            warnings: warnings.toArray()
+        };
+    }
+
+    private convertChildren(parent: XmlElement, offset: Offset, viewport: Viewport, inherited: Presentation, elements: Record<string, unknown>[], warnings: ImportWarnings): void {
+        for (const child of parent.children) {
+            const name = localName(child.name);
+            if (IGNORED_ELEMENTS.includes(name)) {
+                continue;
+            }
+
+            const presentation = getPresentation(child, inherited);
+            if (presentation.display === 'none' || presentation.visibility === 'hidden') {
+                continue;
+            }
+
+            const childOffset = this.applyTransform(child, offset, warnings);
+            if (name === 'g' || name === 'svg' || name === 'a') {
+                this.convertChildren(child, childOffset, viewport, presentation, elements, warnings);
+                continue;
+            }
+
+            const element = this.convertElement(name, child, childOffset, viewport, presentation, warnings);
+            if (element) {
+                elements.push(element);
+            }
+        }
+    }
+
+    private convertElement(name: string, element: XmlElement, offset: Offset, viewport: Viewport, style: Presentation, warnings: ImportWarnings): Record<string, unknown> | undefined {
+        // Percentages of horizontal and vertical attributes resolve against the viewport's width and height, others against its diagonal
+        const diagonal = Math.sqrt((viewport.width ** 2 + viewport.height ** 2) / 2);
+        const reference = (key: string) => /^(x|x1|x2|cx|width|rx)$/.test(key) ? viewport.width : /^(y|y1|y2|cy|height|ry)$/.test(key) ? viewport.height : diagonal;
+        const attribute = (key: string) => length(element.attributes[key], reference(key)) ?? 0;
+        const base = {
+            id: element.attributes.id,
+            name: element.attributes['data-name'] ?? element.attributes['inkscape:label']
+        };
+        const fill = paint(style.fill, '#000000');
+        const stroke = paint(style.stroke, 'transparent');
+        const strokeWidth = length(style['stroke-width']) ?? 1;
+
+        switch (name) {
+            case 'rect':
+                return {
+                    type: 'rectangle', ...base,
+                    x: attribute('x') + offset.x, y: attribute('y') + offset.y,
+                    width: attribute('width'), height: attribute('height'),
+                    fill, stroke, strokeWidth,
+                    cornerRadius: length(element.attributes.rx, viewport.width) ?? length(element.attributes.ry, viewport.height) ?? 0
+                };
+            case 'circle':
+            case 'ellipse': {
+                let radius = attribute('r');
+                if (name === 'ellipse') {
+                    const rx = attribute('rx');
+                    const ry = attribute('ry');
+                    if (Math.abs(rx - ry) > 0.5) {
+                        warnings.add('Ellipses were imported as circles');
+                    }
+                    radius = (rx + ry) / 2;
+                }
+                return { type: 'circle', ...base, x: attribute('cx') + offset.x, y: attribute('cy') + offset.y, radius, fill, stroke, strokeWidth };
+            }
+            case 'line':
+                return {
+                    type: 'line', ...base,
+                    x: attribute('x1') + offset.x, y: attribute('y1') + offset.y,
+                    x2: attribute('x2') + offset.x, y2: attribute('y2') + offset.y,
+                    stroke: paint(style.stroke, '#000000'), strokeWidth,
+                    strokeDashArray: style['stroke-dasharray'] && style['stroke-dasharray'] !== 'none' ? style['stroke-dasharray'] : undefined
+                };
+            case 'text': {
+                const content = textContent(element).replace(/\s+/g, ' ').trim();
+                if (!content) {
+                    return undefined;
+                }
+                // Positions of the first <tspan> apply when the text itself has none
+                const span = element.children.find(child => localName(child.name) === 'tspan');
+                const x = length(element.attributes.x, viewport.width) ?? length(span?.attributes.x, viewport.width) ?? 0;
+                const y = length(element.attributes.y, viewport.height) ?? length(span?.attributes.y, viewport.height) ?? 0;
+                return {
+                    type: 'text', ...base,
+                    x: x + offset.x, y: y + offset.y,
+                    content,
+                    fontSize: length(style['font-size']) ?? 16,
+                    fontFamily: style['font-family'],
+                    fontWeight: style['font-weight'],
+                    fill
+                };
+            }
+            case 'image': {
+                const source = element.attributes.href ?? element.attributes['xlink:href'];
+                if (!source) {
+                    warnings.add('Skipped <image> elements without a source');
+                    return undefined;
+                }
+                return {
+                    type: 'image', ...base,
+                    x: attribute('x') + offset.x, y: attribute('y') + offset.y,
+                    width: attribute('width'), height: attribute('height'),
+                    source,
+                    preserveAspectRatio: element.attributes.preserveAspectRatio !== 'none'
+                };
+            }
+            default:
+                warnings.add(`Skipped unsupported <${name}> elements`);
+                return undefined;
+        }
+    }
+
+    /**
+     * Applies a `translate(...)` transform; other transforms are ignored with a warning
+     */
+    private applyTransform(element: XmlElement, offset: Offset, warnings: ImportWarnings): Offset {
+        const transform = element.attributes.transform?.trim();
+        if (!transform) {
+            return offset;
+        }
+        const translate = /^translate\(\s*([-\d.e]+)(?:[\s,]+([-\d.e]+))?\s*\)$/i.exec(transform);
+        if (!translate) {
+            warnings.add('Transforms other than translate were ignored');
+            return offset;
+        }
+        return { x: offset.x + parseFloat(translate[1]), y: offset.y + (translate[2] ? parseFloat(translate[2]) : 0) };
+    }
+}
+
+/**
+ * Merges inherited presentation properties with an element's attributes and `style`
+ */
+function getPresentation(element: XmlElement, inherited: Presentation): Presentation {
+    const result: Presentation = {};
+    for (const property of INHERITED_PROPERTIES) {
+        if (inherited[property] !== undefined) {
+            result[property] = inherited[property];
+        }
+    }
+    for (const property of [...INHERITED_PROPERTIES, 'display', 'visibility']) {
+        if (element.attributes[property] !== undefined) {
+            result[property] = element.attributes[property];
+        }
+    }
+    for (const declaration of (element.attributes.style ?? '').split(';')) {
+        const colon = declaration.indexOf(':');
+        if (colon > 0) {
+            result[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+        }
+    }
+    return result;
+}
+
+/**
+ * Parses a length in user units (`12`, `12px`), or a percentage of `reference`
+ * when one is given; other units are not converted
+ */
+function length(value: string | undefined, reference?: number): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const percentage = /^\s*([-\d.]+(e[-+]?\d+)?)%\s*$/i.exec(value);
+    if (percentage) {
+        const parsed = parseFloat(percentage[1]);
+        return reference !== undefined && Number.isFinite(parsed) ? parsed * reference / 100 : undefined;
+    }
+    if (!/^\s*[-\d.]+(e[-+]?\d+)?(px)?\s*$/i.test(value)) {
+        return undefined;
+    }
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function paint(value: string | undefined, fallback: string): string {
+    if (value === undefined) {
+        return fallback;
+    }
+    return value === 'none' ? 'transparent' : value;
+}
+
+/**
+ * Element name without its namespace prefix, e.g. `svg:rect` → `rect`
+ */
+function localName(name: string): string {
+    return name.slice(name.indexOf(':') + 1);
+}
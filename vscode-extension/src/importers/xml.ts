@@ -0,0 +1,171 @@
+/**
+ * Minimal XML reader for the importers (SVG and draw.io). Handles elements,
+ * attributes, text, CDATA and the predefined and numeric entities; comments,
+ * processing instructions and doctypes are skipped. Namespaces are kept in names.
+ */
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    /** Text directly inside this element, with entities decoded */
+    text: string;
+    /** Text and child elements in document order */
+    content: (string | XmlElement)[];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Parses an XML document and returns its root element. Throws on malformed markup.
+ */
+export function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', content: [] };
+    const stack: XmlElement[] = [root];
+    let index = 0;
+
+    while (index < xml.length) {
+        const open = xml.indexOf('<', index);
+        const text = xml.slice(index, open < 0 ? undefined : open);
+        if (text.length > 0) {
+            appendText(stack[stack.length - 1], decodeEntities(text));
+        }
+        if (open < 0) {
+            break;
+        }
+
+        if (xml.startsWith('<!--', open)) {
+            index = skipTo(xml, '-->', open);
+        } else if (xml.startsWith('<![CDATA[', open)) {
+            const end = xml.indexOf(']]>', open);
+            if (end < 0) {
+                throw new Error('Unterminated CDATA section');
+            }
+            appendText(stack[stack.length - 1], xml.slice(open + 9, end));
+            index = end + 3;
+        } else if (xml.startsWith('<?', open)) {
+            index = skipTo(xml, '?>', open);
+        } else if (xml.startsWith('<!', open)) {
+            index = skipDoctype(xml, open);
+        } else if (xml.startsWith('</', open)) {
+            const end = skipTo(xml, '>', open);
+            const name = xml.slice(open + 2, end - 1).trim();
+            const current = stack.pop();
+            if (!current || current === root || current.name !== name) {
+                throw new Error(`Unexpected closing tag </${name}>`);
+            }
+            index = end;
+        } else {
+            const end = findTagEnd(xml, open);
+            const selfClosing = xml[end - 1] === '/';
+            const body = xml.slice(open + 1, selfClosing ? end - 1 : end);
+            const nameMatch = /^[^\s/>]+/.exec(body);
+            if (!nameMatch) {
+                throw new Error(`Malformed tag at offset ${open}`);
+            }
+            const element: XmlElement = { name: nameMatch[0], attributes: parseAttributes(body.slice(nameMatch[0].length)), children: [], text: '', content: [] };
+            stack[stack.length - 1].children.push(element);
+            stack[stack.length - 1].content.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+            index = end + 1;
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Missing closing tag </${stack[stack.length - 1].name}>`);
+    }
+    const documentElement = root.children[0];
+    if (!documentElement) {
+        throw new Error('The document has no root element');
+    }
+    return documentElement;
+}
+
+/**
+ * Returns the direct children with a given name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child => child.name === name);
+}
+
+/**
+ * Returns the text of an element and all its descendants
+ */
+export function textContent(element: XmlElement): string {
+    return element.content.map(part => typeof part === 'string' ? part : textContent(part)).join('');
+}
+
+/**
+ * Decodes the predefined and numeric character entities
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+function appendText(element: XmlElement, text: string): void {
+    element.text += text;
+    element.content.push(text);
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4]);
+    }
+    return attributes;
+}
+
+/**
+ * Finds the `>` closing a start tag, ignoring `>` inside quoted attribute values
+ */
+function findTagEnd(xml: string, start: number): number {
+    let quote: string | undefined;
+    for (let index = start + 1; index < xml.length; index++) {
+        const char = xml[index];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '>') {
+            return index;
+        }
+    }
+    throw new Error(`Unterminated tag at offset ${start}`);
+}
+
+function skipTo(xml: string, terminator: string, start: number): number {
+    const end = xml.indexOf(terminator, start);
+    if (end < 0) {
+        throw new Error(`Expected "${terminator}" after offset ${start}`);
+    }
+    return end + terminator.length;
+}
+
+/**
+ * Skips a `<!DOCTYPE …>` declaration, including an internal subset in brackets
+ */
+function skipDoctype(xml: string, start: number): number {
+    let depth = 0;
+    for (let index = start + 2; index < xml.length; index++) {
+        if (xml[index] === '[') {
+            depth++;
+        } else if (xml[index] === ']') {
+            depth--;
+        } else if (xml[index] === '>' && depth <= 0) {
+            return index + 1;
+        }
+    }
+    throw new Error('Unterminated declaration');
+}
@@ -1,7 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { SketchRequestManager } from './mcpTools';
+import { SketchRequestInfo, SketchRequestManager } from './mcpTools';
+import { readSavedDesign } from './designMarkdown';
+import { checkDesignJson, upgradeDesignJson } from './designSchema';
+import { getDefaultSaveUri, getDesignSaveSettings, resolveOverwrite } from './designSaveLocation';
+import { DesignContent, DesignPersistence, DesignSaveResult, reportDesignSaveResult } from './designPersistence';
+import { DesignRenderer, ExportFormat, RenderedDesign, getExportScale, getImageFormats, writeDesignExports } from './designExport';
 
 /**
  * Message types for communication between VS Code and Blazor
@@ -46,6 +51,21 @@ interface ExportResultMessage extends BlazorMessage {
     };
 }
 
+interface DesignChangedMessage extends BlazorMessage {
+    type: 'designChanged';
+    data: {
+        json: string;
+    };
+}
+
+interface RenderDesignResultMessage extends BlazorMessage {
+    type: 'renderDesignResult';
+    data: Partial<RenderedDesign> & {
+        requestId: string;
+        error?: string;
+    };
+}
+
 interface ConfirmSketchMessage extends BlazorMessage {
     type: 'confirmSketch';
     data: {
@@ -54,24 +74,89 @@ interface ConfirmSketchMessage extends BlazorMessage {
         title: string;
         description?: string;
         prompt?: string;
+        /** Base64 PNG rendered from the SVG, absent when rasterization is off or failed */
+        png?: string;
+        requestId?: string;
+    };
+}
+
+interface CancelSketchMessage extends BlazorMessage {
+    type: 'cancelSketch';
+    data: {
+        requestId?: string;
+        /** Ask the user for a text answer to return instead of a sketch */
+        replyInText?: boolean;
     };
 }
 
+/**
+ * State persisted by the webview (see `notifyDesignChanged` in kazo-design.js)
+ */
+interface WebviewState {
+    json?: string;
+}
+
+/**
+ * An open editor webview, optionally bound to a design file
+ */
+interface EditorSession {
+    /** Registry key: the document URI for design files, a generated id otherwise */
+    id: string;
+    panel: vscode.WebviewPanel;
+    document?: vscode.TextDocument;
+    /** Sketch request this editor was opened for */
+    requestId?: string;
+    /** Request this editor was opened for, once it has ended (timed out or answered elsewhere) */
+    endedRequestId?: string;
+    /** Design JSON to load once Blazor is ready (restored or reopened designs) */
+    initialJson?: string;
+    /** Whether the Blazor editor has reported it is ready */
+    ready?: boolean;
+    /** Last JSON known to be in sync between the webview and the document */
+    lastSyncedJson?: string;
+    /** Latest design JSON reported by the webview */
+    currentJson?: string;
+}
+
+/** How long to wait for the webview to render a design for export */
+const RENDER_TIMEOUT_MS = 30000;
+
 /**
  * Provider for the Kazo Design editor webview
  */
-export class KazoDesignEditorProvider {
+export class KazoDesignEditorProvider implements vscode.CustomTextEditorProvider {
     public static readonly viewType = 'kazoDesign.editor';
+    public static readonly customEditorViewType = 'kazoDesign.designFile';
     
-    private panel: vscode.WebviewPanel | undefined;
+    /** Open editors keyed by session id */
+    private readonly sessions = new Map<string, EditorSession>();
+    /** Most recently focused editor, target of commands that don't name one */
+    private activeSessionId: string | undefined;
+    private nextPanelNumber = 1;
     private readonly extensionUri: vscode.Uri;
     private readonly context: vscode.ExtensionContext;
     private readonly outputChannel: vscode.OutputChannel;
+    private readonly persistence = new DesignPersistence();
+    /** Render requests sent to webviews, keyed by request id */
+    private readonly pendingRenders = new Map<string, (result: RenderDesignResultMessage['data']) => void>();
+    private nextRenderId = 1;
 
     constructor(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel) {
         this.context = context;
         this.extensionUri = context.extensionUri;
         this.outputChannel = outputChannel;
+
+        // Editors whose request ended (timed out, cancelled elsewhere) no longer answer it
+        context.subscriptions.push(SketchRequestManager.getInstance().onDidChangeRequests(() => this.releaseEndedRequests()));
+        context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('kazoDesign.sketchImage.maxSize')) {
+                for (const session of this.sessions.values()) {
+                    if (session.ready) {
+                        this.sendSettings(session);
+                    }
+                }
+            }
+        }));
         this.log('KazoDesignEditorProvider initialized');
     }
 
@@ -99,34 +184,186 @@ export class KazoDesignEditorProvider {
     }
 
     /**
-     * Opens a new Kazo Design editor panel
+     * Reveals the most recently used editor panel, or opens one if none is open
      */
-    public openNewEditor(): void {
-        this.log('Opening Kazo Design editor...');
-        
-        if (this.panel) {
-            this.log('Revealing existing panel');
-            this.panel.reveal(vscode.ViewColumn.One);
-            return;
+    public openEditor(): string {
+        const session = this.getSession();
+        if (session) {
+            this.log(`Revealing existing panel ${session.id}`);
+            session.panel.reveal();
+            return session.id;
         }
+        return this.openNewEditor();
+    }
+
+    /**
+     * Opens a new Kazo Design editor panel, optionally loading a design once it is ready.
+     * Returns the id of the new editor session.
+     */
+    public openNewEditor(initialJson?: string, requestId?: string): string {
+        this.log('Opening Kazo Design editor...');
 
-        this.panel = vscode.window.createWebviewPanel(
+        const panelNumber = this.nextPanelNumber++;
+        const panel = vscode.window.createWebviewPanel(
             KazoDesignEditorProvider.viewType,
-            'Kazo Design Editor',
-            vscode.ViewColumn.One,
+            panelNumber === 1 ? 'Kazo Design Editor' : `Kazo Design Editor (${panelNumber})`,
+            this.sessions.size > 0 ? vscode.ViewColumn.Beside : vscode.ViewColumn.One,
             this.getWebviewOptions()
         );
 
-        this.log('Created new webview panel');
-        this.setupWebview(this.panel);
+        const session: EditorSession = { id: `design-${panelNumber}`, panel, initialJson, requestId };
+        this.log(`Created new webview panel ${session.id}`);
+        this.setupWebview(session);
+        return session.id;
+    }
+
+    /**
+     * Reveals the editor opened for a sketch request, or opens a new one for it.
+     * An initial design (e.g. one proposed by the AI) is loaded once the editor is ready.
+     */
+    public openEditorForRequest(requestId: string, initialJson?: string): string {
+        const existing = [...this.sessions.values()].find(s => s.requestId === requestId);
+        if (existing) {
+            existing.panel.reveal();
+            if (initialJson) {
+                this.loadDesign(initialJson, existing.id);
+            }
+            return existing.id;
+        }
+        return this.openNewEditor(initialJson ?? SketchRequestManager.getInstance().getInitialDesign(requestId), requestId);
+    }
+
+    /**
+     * Lets the user pick a pending sketch request, then open its editor,
+     * answer it in text or decline it
+     */
+    public async showPendingRequests(): Promise<void> {
+        const request = await this.pickPendingRequest('Pending sketch requests', 'Select a request to open, answer or decline');
+        if (!request) {
+            return;
+        }
+
+        const action = await vscode.window.showQuickPick(
+            [
+                { label: '$(edit) Open Editor', description: 'Draw the answer', action: 'open' },
+                { label: '$(comment) Answer with Text', description: 'Reply in text instead of drawing', action: 'text' },
+                { label: '$(close) Decline', description: 'Tell the AI assistant you won\'t answer', action: 'decline' }
+            ] as const,
+            { title: request.title, placeHolder: request.prompt }
+        );
+
+        const manager = SketchRequestManager.getInstance();
+        if (!action || !manager.hasPendingRequest(request.id)) {
+            return;
+        }
+        switch (action.action) {
+            case 'open':
+                this.openEditorForRequest(request.id);
+                break;
+            case 'text':
+                await this.answerRequestInText(request);
+                break;
+            case 'decline':
+                manager.cancelSketch(request.id, 'declined');
+                this.log(`Sketch request "${request.title}" declined`);
+                break;
+        }
     }
 
     /**
-     * Revives a serialized webview panel
+     * Shows a QuickPick of pending sketch requests with their title, prompt and age
      */
-    public revivePanel(panel: vscode.WebviewPanel, _state: unknown): void {
-        this.panel = panel;
-        this.setupWebview(panel);
+    private async pickPendingRequest(title: string, placeHolder: string): Promise<SketchRequestInfo | undefined> {
+        const requests = SketchRequestManager.getInstance().getPendingRequests();
+        if (requests.length === 0) {
+            vscode.window.showInformationMessage('There are no pending sketch requests.');
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            requests.map(request => ({
+                label: request.title,
+                description: formatAge(request.createdAt),
+                detail: request.prompt,
+                request
+            })),
+            { title, placeHolder }
+        );
+        return picked?.request;
+    }
+
+    /**
+     * Reopens a design saved as an SVG + Markdown pair so it can be revised.
+     * Accepts either file of the pair; prompts for one when no URI is given.
+     */
+    public async openSavedDesign(uri?: vscode.Uri): Promise<void> {
+        let target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!target) {
+            const picked = await vscode.window.showOpenDialog({
+                title: 'Open Saved Design',
+                canSelectMany: false,
+                filters: {
+                    'Kazo Designs': ['md', 'svg']
+                }
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+            target = picked[0];
+        }
+
+        this.log(`Reopening saved design from ${target.toString()}`);
+
+        let json: string;
+        try {
+            json = await readSavedDesign(target);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not open design ${path.basename(target.path)}: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        this.openNewEditor(json);
+    }
+
+    /**
+     * Revives a serialized webview panel, restoring the design from its saved state
+     */
+    public revivePanel(panel: vscode.WebviewPanel, state: unknown): void {
+        panel.webview.options = this.getWebviewOptions();
+        const json = (state as WebviewState | undefined)?.json;
+        this.setupWebview({ id: `design-${this.nextPanelNumber++}`, panel, initialJson: json });
+    }
+
+    /**
+     * Resolves a custom editor for a `.kazo` / `.kazo.json` design file.
+     * The TextDocument is the source of truth: dirty state, save, undo/redo,
+     * revert and hot exit are all handled by VS Code through it.
+     */
+    public async resolveCustomTextEditor(
+        document: vscode.TextDocument,
+        webviewPanel: vscode.WebviewPanel,
+        _token: vscode.CancellationToken
+    ): Promise<void> {
+        this.log(`Opening design file: ${document.uri.toString()}`);
+        webviewPanel.webview.options = this.getWebviewOptions();
+
+        const session: EditorSession = { id: document.uri.toString(), panel: webviewPanel, document };
+        this.setupWebview(session);
+
+        // Reload the canvas when the document changes outside the webview (undo/redo, revert, external edits)
+        const changeSubscription = vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.document.uri.toString() !== document.uri.toString() || e.contentChanges.length === 0) {
+                return;
+            }
+            const text = document.getText();
+            if (text === session.lastSyncedJson) {
+                return;
+            }
+            session.lastSyncedJson = text;
+            this.postLoadDesign(webviewPanel.webview, text);
+        });
+
+        webviewPanel.onDidDispose(() => changeSubscription.dispose());
     }
 
     /**
@@ -147,31 +384,49 @@ export class KazoDesignEditorProvider {
     /**
      * Sets up the webview with HTML content and message handlers
      */
-    private setupWebview(panel: vscode.WebviewPanel): void {
+    private setupWebview(session: EditorSession): void {
+        const { panel } = session;
+        this.sessions.set(session.id, session);
+        this.activeSessionId = session.id;
         panel.webview.html = this.getHtmlForWebview(panel.webview);
 
+        // Track the focused editor so commands target the panel the user is looking at
+        panel.onDidChangeViewState(e => {
+            if (e.webviewPanel.active) {
+                this.activeSessionId = session.id;
+            }
+        }, null, this.context.subscriptions);
+
         // Handle messages from the webview
         panel.webview.onDidReceiveMessage(
             async (message: BlazorMessage) => {
-                await this.handleMessage(message, panel.webview);
+                await this.handleMessage(message, session);
             },
             undefined,
             this.context.subscriptions
         );
 
-        // Clean up when panel is closed
+        // Clean up when panel is closed; a request still waiting on this editor is cancelled
         panel.onDidDispose(() => {
-            this.panel = undefined;
+            this.sessions.delete(session.id);
+            if (this.activeSessionId === session.id) {
+                this.activeSessionId = undefined;
+            }
+            if (session.requestId) {
+                SketchRequestManager.getInstance().cancelSketch(session.requestId, 'editorClosed');
+            }
+            this.log(`Editor ${session.id} closed`);
         }, null, this.context.subscriptions);
     }
 
     /**
      * Handles messages received from the Blazor webview
      */
-    private async handleMessage(message: BlazorMessage, webview: vscode.Webview): Promise<void> {
+    private async handleMessage(message: BlazorMessage, session: EditorSession): Promise<void> {
+        const webview = session.panel.webview;
         switch (message.type) {
             case 'saveDesign':
-                await this.handleSaveDesign(message as SaveDesignMessage);
+                await this.handleSaveDesign(message as SaveDesignMessage, session);
                 break;
 
             case 'askUser':
@@ -183,13 +438,30 @@ export class KazoDesignEditorProvider {
                 break;
 
             case 'confirmSketch':
-                await this.handleConfirmSketch(message as ConfirmSketchMessage);
+                await this.handleConfirmSketch(message as ConfirmSketchMessage, session);
+                break;
+
+            case 'cancelSketch':
+                await this.handleCancelSketch(message as CancelSketchMessage, session);
+                break;
+
+            case 'renderDesignResult': {
+                const { data } = message as RenderDesignResultMessage;
+                this.pendingRenders.get(data.requestId)?.(data);
+                break;
+            }
+
+            case 'designChanged':
+                await this.handleDesignChanged(message as DesignChangedMessage, session);
                 break;
 
             case 'ready':
                 this.log('Blazor editor is ready');
+                session.ready = true;
+                this.sendSettings(session);
+                this.sendInitialDesign(session);
                 // Send pending MCP request context if available
-                this.sendPendingMcpContext(webview);
+                this.sendPendingMcpContext(session);
                 break;
 
             case 'error':
@@ -205,19 +477,69 @@ export class KazoDesignEditorProvider {
         }
     }
 
+    /**
+     * Loads the bound document (or restored state) into a freshly started editor
+     */
+    private sendInitialDesign(session: EditorSession): void {
+        const json = session.document ? session.document.getText() : session.initialJson;
+        if (!json || json.trim().length === 0) {
+            return;
+        }
+        session.lastSyncedJson = json;
+        this.postLoadDesign(session.panel.webview, json);
+    }
+
+    /**
+     * Applies design edits from the webview to the bound document, marking it dirty
+     */
+    private async handleDesignChanged(message: DesignChangedMessage, session: EditorSession): Promise<void> {
+        const { document } = session;
+        const { json } = message.data;
+        session.currentJson = json;
+        if (!document || json === document.getText()) {
+            return;
+        }
+
+        session.lastSyncedJson = json;
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            document.uri,
+            new vscode.Range(0, 0, document.lineCount, 0),
+            json
+        );
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    /**
+     * Sends the settings the webview applies itself, such as the size of sketch images
+     */
+    private sendSettings(session: EditorSession): void {
+        session.panel.webview.postMessage({
+            type: 'settings',
+            data: {
+                imageMaxSize: vscode.workspace.getConfiguration('kazoDesign').get<number>('sketchImage.maxSize', 1024)
+            }
+        });
+    }
+
     /**
      * Sends pending MCP request context to the webview
      * This allows the Blazor editor to know the AI's original prompt and title
      */
-    private sendPendingMcpContext(webview: vscode.Webview): void {
+    private sendPendingMcpContext(session: EditorSession): void {
+        if (!session.requestId) {
+            return;
+        }
+
         const manager = SketchRequestManager.getInstance();
-        const pendingRequest = manager.getPendingRequest();
+        const pendingRequest = manager.getPendingRequest(session.requestId);
         
         if (pendingRequest) {
-            this.log(`Sending MCP context to webview: title="${pendingRequest.title}", prompt="${pendingRequest.prompt}"`);
-            webview.postMessage({
+            this.log(`Sending MCP context to webview: requestId="${pendingRequest.id}", title="${pendingRequest.title}", prompt="${pendingRequest.prompt}"`);
+            session.panel.webview.postMessage({
                 type: 'mcpContext',
                 data: {
+                    requestId: pendingRequest.id,
                     title: pendingRequest.title,
                     prompt: pendingRequest.prompt
                 }
@@ -270,12 +592,17 @@ export class KazoDesignEditorProvider {
     /**
      * Handles the save design command from Blazor
      */
-    private async handleSaveDesign(message: SaveDesignMessage): Promise<void> {
-        const { svg, json, title, prompt, description } = message.data;
+    private async handleSaveDesign(message: SaveDesignMessage, session: EditorSession): Promise<void> {
+        const { svg, title, prompt, description } = message.data;
 
-        // Ask user for save location
+        const json = await this.checkDesignBeforeUse(message.data.json, 'Save Anyway');
+        if (json === undefined) {
+            return;
+        }
+
+        // Ask user for save location, starting from the configured folder and file name
         const saveUri = await vscode.window.showSaveDialog({
-            defaultUri: vscode.Uri.file(title || 'design'),
+            defaultUri: getDefaultSaveUri(title || 'design'),
             filters: {
                 'SVG Files': ['svg'],
                 'All Files': ['*']
@@ -287,58 +614,71 @@ export class KazoDesignEditorProvider {
             return;
         }
 
-        try {
-            const basePath = saveUri.fsPath.replace(/\.svg$/, '');
-            const svgPath = `${basePath}.svg`;
-            const mdPath = `${basePath}.md`;
-
-            // Ensure directory exists
-            const dir = path.dirname(svgPath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            // Save SVG file
-            fs.writeFileSync(svgPath, svg, 'utf-8');
-
-            // Create and save companion markdown file
-            const markdownContent = this.createMarkdownContent(title, svgPath, prompt, json, description);
-            fs.writeFileSync(mdPath, markdownContent, 'utf-8');
+        const result = await this.saveDesignFiles(session, saveUri, { svg, json, title, prompt, description }, 'Design');
 
-            vscode.window.showInformationMessage(`Design saved to ${basePath}`);
+        // Open the markdown file
+        if (result.written.some(uri => uri.toString() === result.markdownUri.toString())) {
+            await vscode.window.showTextDocument(result.markdownUri, { preview: false });
+        }
+    }
 
-            // Open the markdown file
-            const mdUri = vscode.Uri.file(mdPath);
-            await vscode.window.showTextDocument(mdUri, { preview: false });
+    /**
+     * Saves a design as SVG + Markdown, plus the formats in `kazoDesign.save.exportFormats`,
+     * and reports the outcome
+     */
+    private async saveDesignFiles(session: EditorSession, saveUri: vscode.Uri, design: DesignContent, what: string): Promise<DesignSaveResult> {
+        const result = await this.persistence.saveDesign(saveUri, design);
 
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to save design: ${error}`);
+        const formats = vscode.workspace.getConfiguration('kazoDesign').get<ExportFormat[]>('save.exportFormats', []);
+        if (formats.length > 0) {
+            const baseUri = result.svgUri.with({ path: result.svgUri.path.replace(/\.svg$/i, '') });
+            try {
+                const rendered = await this.createRenderer(session)(getExportScale(), getImageFormats(formats));
+                const exported = await writeDesignExports(rendered, baseUri, formats, this.persistence);
+                result.written.push(...exported.written);
+                result.failed.push(...exported.failed);
+            } catch (error) {
+                const details = error instanceof Error ? error.message : String(error);
+                this.logError('Failed to render design for export', details);
+                result.failed.push(...formats.map(format => ({ uri: baseUri.with({ path: `${baseUri.path}.${format}` }), error: details })));
+            }
         }
+
+        reportDesignSaveResult(result, what);
+        return result;
     }
 
     /**
-     * Creates the companion markdown file content
+     * Asks an editor's webview to render its design; rejects when it does not answer in time
      */
-    private createMarkdownContent(title: string, svgPath: string, prompt: string | undefined, json: string, description?: string): string {
-        const svgFileName = path.basename(svgPath);
-        
-        let content = `# ${title || 'Untitled Design'}\n\n`;
-        content += `![Design](${svgFileName})\n\n`;
-        
-        if (description) {
-            content += `## Description\n\n${description}\n\n`;
-        }
-        
-        if (prompt) {
-            content += `## AI Prompt\n\n${prompt}\n\n`;
-        }
-        
-        content += `## Technical Data (JSON)\n\n`;
-        content += '```json\n';
-        content += json;
-        content += '\n```\n';
+    private createRenderer(session: EditorSession): DesignRenderer {
+        return (scale, formats) => new Promise<RenderedDesign>((resolve, reject) => {
+            const requestId = `render-${this.nextRenderId++}`;
+            const timeout = setTimeout(() => {
+                this.pendingRenders.delete(requestId);
+                reject(new Error('The editor did not render the design in time'));
+            }, RENDER_TIMEOUT_MS);
+
+            this.pendingRenders.set(requestId, data => {
+                clearTimeout(timeout);
+                this.pendingRenders.delete(requestId);
+                if (data.error || data.svg === undefined || data.json === undefined) {
+                    reject(new Error(data.error ?? 'The editor returned no design'));
+                } else {
+                    resolve({ ...data, svg: data.svg, json: data.json, title: data.title ?? '' });
+                }
+            });
+
+            session.panel.webview.postMessage({ type: 'renderDesign', data: { requestId, scale, formats } });
+        });
+    }
 
-        return content;
+    /**
+     * Returns a renderer for the active editor, or undefined when no editor is ready
+     */
+    public getDesignRenderer(sessionId?: string): DesignRenderer | undefined {
+        const session = this.getSession(sessionId);
+        return session?.ready ? this.createRenderer(session) : undefined;
     }
 
     /**
@@ -381,95 +721,251 @@ export class KazoDesignEditorProvider {
     }
 
     /**
-     * Handles confirm sketch and return to AI assistant
+     * Migrates and validates design JSON before it is saved or returned to the AI.
+     * When the design is invalid the user decides whether to go on; returns the
+     * JSON to use, or undefined when the user stops.
      */
-    private async handleConfirmSketch(message: ConfirmSketchMessage): Promise<void> {
-        const { svg, json, title, description, prompt } = message.data;
+    private async checkDesignBeforeUse(json: string, proceedLabel: string): Promise<string | undefined> {
+        let result;
+        try {
+            result = checkDesignJson(json);
+        } catch (error) {
+            const details = error instanceof Error ? error.message : String(error);
+            this.logError('Design check failed', details);
+            vscode.window.showErrorMessage(`The design could not be read: ${details}`);
+            return undefined;
+        }
 
-        // Ask user if they want to save the sketch
-        const saveChoice = await vscode.window.showQuickPick(
-            ['Save sketch and return', 'Return without saving'],
-            {
-                title: 'Save your sketch?',
-                placeHolder: 'Would you like to save your sketch before returning to the AI assistant?'
-            }
+        if (result.migratedFrom !== undefined) {
+            this.log(`Migrated design from schema version ${result.migratedFrom}`);
+        }
+        if (result.errors.length === 0) {
+            return result.json;
+        }
+
+        this.log(`Design has ${result.errors.length} validation error(s):\n  ${result.errors.join('\n  ')}`);
+        const choice = await vscode.window.showWarningMessage(
+            `The design has ${result.errors.length} problem${result.errors.length === 1 ? '' : 's'}: ${result.errors[0]}`,
+            { modal: true, detail: result.errors.slice(0, 10).join('\n') },
+            proceedLabel
         );
+        return choice === proceedLabel ? result.json : undefined;
+    }
 
-        if (saveChoice === 'Save sketch and return') {
-            // Ask user for save location
-            const saveUri = await vscode.window.showSaveDialog({
-                defaultUri: vscode.Uri.file(title || 'sketch'),
-                filters: {
-                    'SVG Files': ['svg'],
-                    'All Files': ['*']
-                },
-                title: 'Save Sketch'
-            });
+    /**
+     * Handles confirm sketch and return to AI assistant
+     */
+    private async handleConfirmSketch(message: ConfirmSketchMessage, session: EditorSession): Promise<void> {
+        const { svg, title, description, prompt, png } = message.data;
 
-            if (saveUri) {
-                try {
-                    const basePath = saveUri.fsPath.replace(/\.svg$/, '');
-                    const svgPath = `${basePath}.svg`;
-                    const mdPath = `${basePath}.md`;
+        const json = await this.checkDesignBeforeUse(message.data.json, 'Return Anyway');
+        if (json === undefined) {
+            return;
+        }
 
-                    // Ensure directory exists
-                    const dir = path.dirname(svgPath);
-                    if (!fs.existsSync(dir)) {
-                        fs.mkdirSync(dir, { recursive: true });
-                    }
+        const saveUri = await this.pickConfirmSaveUri(title || 'sketch');
+        if (saveUri) {
+            await this.saveDesignFiles(session, saveUri, { svg, json, title, prompt, description }, 'Sketch');
+        }
+
+        // Notify the MCP tool that asked for this sketch
+        const requestId = await this.resolveConfirmedRequestId(session, message.data.requestId);
+        if (!requestId) {
+            // Keep the editor open so the sketch isn't lost
+            vscode.window.showInformationMessage('The sketch was not sent: no AI request is waiting for it.');
+            return;
+        }
+        SketchRequestManager.getInstance().completeSketch(requestId, {
+            success: true,
+            title: title,
+            svg: svg,
+            json: json,
+            png: png || undefined
+        });
+
+        // Close the editor panel (design files stay open so they can be saved)
+        if (!session.document) {
+            session.panel.dispose();
+        }
+
+        // Show confirmation message
+        vscode.window.showInformationMessage('Sketch confirmed! You can now continue your conversation with the AI assistant.');
+    }
+
+    /**
+     * Ends the request an editor answers without a sketch: cancelled, or with a
+     * text reply typed by the user. The editor stays open with its design.
+     */
+    private async handleCancelSketch(message: CancelSketchMessage, session: EditorSession): Promise<void> {
+        const manager = SketchRequestManager.getInstance();
+        const request = manager.getPendingRequest(message.data.requestId ?? session.requestId ?? '');
+        if (!request) {
+            vscode.window.showInformationMessage('This sketch request has already ended.');
+            return;
+        }
+
+        if (message.data.replyInText) {
+            await this.answerRequestInText(request);
+        } else {
+            manager.cancelSketch(request.id, 'cancelled');
+            this.log(`Sketch request "${request.title}" cancelled from the editor`);
+        }
+    }
+
+    /**
+     * Asks the user for a text answer and returns it to the AI instead of a sketch
+     */
+    private async answerRequestInText(request: SketchRequestInfo): Promise<void> {
+        const manager = SketchRequestManager.getInstance();
+        const text = await vscode.window.showInputBox({
+            title: `Reply to "${request.title}"`,
+            prompt: request.prompt,
+            placeHolder: 'Describe your answer instead of drawing it',
+            ignoreFocusOut: true
+        });
+        if (text === undefined || !manager.hasPendingRequest(request.id)) {
+            return;
+        }
+        manager.cancelSketch(request.id, 'repliedInText', text);
+        this.log(`Sketch request "${request.title}" answered in text`);
+        vscode.window.showInformationMessage('Reply sent! You can now continue your conversation with the AI assistant.');
+    }
+
+    /**
+     * Unbinds editors from requests that are no longer pending and hides their request banner
+     */
+    private releaseEndedRequests(): void {
+        const manager = SketchRequestManager.getInstance();
+        for (const session of this.sessions.values()) {
+            if (session.requestId && !manager.hasPendingRequest(session.requestId)) {
+                session.endedRequestId = session.requestId;
+                session.requestId = undefined;
+                session.panel.webview.postMessage({ type: 'mcpRequestEnded' });
+            }
+        }
+    }
 
-                    // Save SVG file
-                    fs.writeFileSync(svgPath, svg, 'utf-8');
+    /**
+     * Decides where a confirmed sketch is saved, following the `kazoDesign.save.*`
+     * settings. Returns undefined when the sketch is returned without saving.
+     */
+    private async pickConfirmSaveUri(title: string): Promise<vscode.Uri | undefined> {
+        const settings = getDesignSaveSettings();
+        if (settings.onConfirm === 'never') {
+            return undefined;
+        }
 
-                    // Create and save companion markdown file
-                    const markdownContent = this.createMarkdownContent(title, svgPath, prompt, json, description);
-                    fs.writeFileSync(mdPath, markdownContent, 'utf-8');
+        const defaultUri = getDefaultSaveUri(title, settings);
+        if (settings.onConfirm === 'always' && defaultUri) {
+            // Saved without dialogs; only a name clash may still need an answer
+            return resolveOverwrite(defaultUri, settings.overwrite);
+        }
 
-                    vscode.window.showInformationMessage(`Sketch saved to ${basePath}`);
-                } catch (error) {
-                    vscode.window.showErrorMessage(`Failed to save sketch: ${error}`);
+        if (settings.onConfirm === 'ask') {
+            const saveChoice = await vscode.window.showQuickPick(
+                ['Save sketch and return', 'Return without saving'],
+                {
+                    title: 'Save your sketch?',
+                    placeHolder: 'Would you like to save your sketch before returning to the AI assistant?'
                 }
+            );
+            if (saveChoice !== 'Save sketch and return') {
+                return undefined;
             }
         }
 
-        // Notify the MCP tools that the sketch is complete
-        const sketchManager = SketchRequestManager.getInstance();
-        if (sketchManager.hasPendingRequest()) {
-            sketchManager.completeSketch({
-                success: true,
-                title: title,
-                svg: svg,
-                json: json
-            });
+        // Ask user for save location
+        return vscode.window.showSaveDialog({
+            defaultUri,
+            filters: {
+                'SVG Files': ['svg'],
+                'All Files': ['*']
+            },
+            title: 'Save Sketch'
+        });
+    }
+
+    /**
+     * Determines which pending request a confirmed sketch answers.
+     * Editors opened outside a request are matched to the only pending request,
+     * or the user chooses when several are waiting. A sketch drawn for a request
+     * that has ended is only sent to another request the user picks.
+     */
+    private async resolveConfirmedRequestId(session: EditorSession, requestId: string | undefined): Promise<string | undefined> {
+        const manager = SketchRequestManager.getInstance();
+        const ownRequestId = requestId ?? session.requestId ?? session.endedRequestId;
+        if (ownRequestId && manager.hasPendingRequest(ownRequestId)) {
+            return ownRequestId;
         }
 
-        // Close the editor panel
-        if (this.panel) {
-            this.panel.dispose();
+        const pending = manager.getPendingRequests();
+        if (pending.length === 0) {
+            return undefined;
+        }
+        if (!ownRequestId && pending.length === 1) {
+            return pending[0].id;
         }
 
-        // Show confirmation message
-        vscode.window.showInformationMessage('Sketch confirmed! You can now continue your conversation with the AI assistant.');
+        const request = await this.pickPendingRequest(
+            'Send sketch to which request?',
+            ownRequestId ? 'The request for this sketch has ended; pick another request or press Escape to keep it' : 'Several AI requests are waiting for a sketch'
+        );
+        return request?.id;
     }
 
     /**
-     * Sends a command to load a design in Blazor
+     * Sends a command to load a design in Blazor (into the given editor, or the active one)
      */
-    public loadDesign(json: string): void {
-        if (this.panel) {
-            this.panel.webview.postMessage({
-                type: 'loadDesign',
-                data: json
-            });
+    public loadDesign(json: string, sessionId?: string): void {
+        const session = this.getSession(sessionId);
+        if (!session) {
+            this.openNewEditor(json);
+        } else if (session.ready) {
+            this.postLoadDesign(session.panel.webview, json);
+        } else {
+            session.initialJson = json;
+        }
+    }
+
+    /**
+     * Returns the session with the given id, or the most recently focused one
+     */
+    private getSession(sessionId?: string): EditorSession | undefined {
+        if (sessionId) {
+            return this.sessions.get(sessionId);
         }
+        if (this.activeSessionId && this.sessions.has(this.activeSessionId)) {
+            return this.sessions.get(this.activeSessionId);
+        }
+        // Fall back to the most recently opened editor
+        return [...this.sessions.values()].pop();
     }
 
     /**
-     * Requests an export from Blazor
+     * Posts a loadDesign message to a webview
      */
-    public requestExport(): void {
-        if (this.panel) {
-            this.panel.webview.postMessage({
+    private postLoadDesign(webview: vscode.Webview, json: string): void {
+        webview.postMessage({
+            type: 'loadDesign',
+            data: upgradeDesignJson(json)
+        });
+    }
+
+    /**
+     * Returns the design JSON shown in the active editor, if any
+     */
+    public getActiveDesignJson(): string | undefined {
+        const session = this.getSession();
+        return session?.currentJson ?? session?.document?.getText() ?? session?.initialJson;
+    }
+
+    /**
+     * Requests an export from Blazor (from the given editor, or the active one)
+     */
+    public requestExport(sessionId?: string): void {
+        const session = this.getSession(sessionId);
+        if (session) {
+            session.panel.webview.postMessage({
                 type: 'exportDesign'
             });
         }
@@ -631,3 +1127,18 @@ export class KazoDesignEditorProvider {
         return text;
     }
 }
+
+/**
+ * Formats how long ago a date was, e.g. "2 min ago"
+ */
+function formatAge(date: Date): string {
+    const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+    if (seconds < 60) {
+        return `${seconds}s ago`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes} min ago`;
+    }
+    return `${Math.floor(minutes / 60)} h ago`;
+}
@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as net from 'net';
+import {
+    JsonRpcErrorCode,
+    JsonRpcResponse,
+    McpToolCallResult,
+    getBridgeSocketPath,
+    isJsonRpcRequest,
+    readJsonLines,
+    toJsonLine
+} from './mcpProtocol';
+import { KazoToolRegistry } from './mcpTools';
+
+/**
+ * Local socket server that lets the standalone MCP server (`out/mcpServer.js`)
+ * call the extension's tools, so MCP clients outside VS Code share the same
+ * implementation as Copilot tool-calling.
+ */
+export class McpBridgeServer implements vscode.Disposable {
+    private server: net.Server | undefined;
+    private readonly socketPath = getBridgeSocketPath();
+
+    constructor(
+        private readonly tools: KazoToolRegistry,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {}
+
+    /**
+     * Starts listening on the bridge socket
+     */
+    public start(): void {
+        this.listen(true);
+    }
+
+    public dispose(): void {
+        this.server?.close();
+        this.server = undefined;
+    }
+
+    private listen(retryOnStaleSocket: boolean): void {
+        const server = net.createServer(socket => this.handleConnection(socket));
+
+        server.on('error', (error: NodeJS.ErrnoException) => {
+            if (error.code === 'EADDRINUSE' && retryOnStaleSocket && process.platform !== 'win32') {
+                this.removeStaleSocket().then(removed => {
+                    if (removed) {
+                        this.listen(false);
+                    } else {
+                        this.log('MCP bridge socket is in use by another VS Code window; bridge not started');
+                    }
+                });
+                return;
+            }
+            this.log(`MCP bridge error: ${error.message}`);
+        });
+
+        server.listen(this.socketPath, () => {
+            if (process.platform !== 'win32') {
+                fs.chmodSync(this.socketPath, 0o600);
+            }
+            this.log(`MCP bridge listening on ${this.socketPath}`);
+        });
+
+        this.server = server;
+    }
+
+    /**
+     * Removes a socket file left behind by a crashed window.
+     * Resolves false when another live window owns the socket.
+     */
+    private removeStaleSocket(): Promise<boolean> {
+        return new Promise(resolve => {
+            const probe = net.connect(this.socketPath);
+            probe.on('connect', () => {
+                probe.destroy();
+                resolve(false);
+            });
+            probe.on('error', () => {
+                try {
+                    fs.unlinkSync(this.socketPath);
+                    resolve(true);
+                } catch {
+                    resolve(false);
+                }
+            });
+        });
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        // Cancel in-flight tool calls when the MCP server disconnects
+        const tokenSource = new vscode.CancellationTokenSource();
+        socket.on('close', () => {
+            tokenSource.cancel();
+            tokenSource.dispose();
+        });
+        socket.on('error', error => this.log(`MCP bridge connection error: ${error.message}`));
+
+        readJsonLines(
+            socket,
+            async message => {
+                try {
+                    const response = await this.handleRequest(message, tokenSource.token);
+                    if (!socket.destroyed) {
+                        socket.write(toJsonLine(response));
+                    }
+                } catch (error) {
+                    this.log(`MCP bridge failed to handle a message: ${error instanceof Error ? error.message : error}`);
+                }
+            },
+            line => this.log(`MCP bridge received invalid JSON: ${line}`)
+        );
+    }
+
+    private async handleRequest(message: unknown, token: vscode.CancellationToken): Promise<JsonRpcResponse> {
+        if (!isJsonRpcRequest(message)) {
+            return {
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: JsonRpcErrorCode.invalidRequest, message: 'Invalid Request' }
+            };
+        }
+
+        const request = message;
+        const id = request.id ?? null;
+
+        if (request.method !== 'tools/call') {
+            return {
+                jsonrpc: '2.0',
+                id,
+                error: { code: JsonRpcErrorCode.methodNotFound, message: `Unknown method: ${request.method}` }
+            };
+        }
+
+        const name = request.params?.name as string | undefined;
+        const tool = name ? this.tools.get(name) : undefined;
+        if (!tool) {
+            return {
+                jsonrpc: '2.0',
+                id,
+                error: { code: JsonRpcErrorCode.invalidParams, message: `Unknown tool: ${name}` }
+            };
+        }
+
+        this.log(`MCP bridge invoking ${name}`);
+        // Clients of the stdio server have no confirmation of their own
+        const result = await invokeKazoTool(tool, request.params?.arguments, token, { confirm: true });
+        return { jsonrpc: '2.0', id, result };
+    }
+
+    private log(message: string): void {
+        this.outputChannel.appendLine(`[${new Date().toISOString()}] ${message}`);
+    }
+}
+
+/**
+ * Options of {@link invokeKazoTool}
+ */
+export interface InvokeKazoToolOptions {
+    /**
+     * Asks the tool's confirmation in a modal dialog before it runs, like Copilot
+     * tool-calling does. Off for clients that confirm tool calls themselves.
+     */
+    confirm?: boolean;
+}
+
+/**
+ * Invokes an extension tool outside of chat and converts its result to MCP content.
+ * Shared by every MCP transport so they behave exactly like Copilot tool-calling.
+ */
+export async function invokeKazoTool(
+    tool: vscode.LanguageModelTool<object>,
+    args: unknown,
+    token: vscode.CancellationToken,
+    options: InvokeKazoToolOptions = {}
+): Promise<McpToolCallResult> {
+    const input = (args ?? {}) as object;
+    try {
+        const prepared = options.confirm ? await tool.prepareInvocation?.({ input }, token) : undefined;
+        if (prepared?.confirmationMessages && !await confirmInvocation(prepared.confirmationMessages)) {
+            return {
+                content: [{ type: 'text', text: JSON.stringify({ success: false, cancelled: true, error: 'User did not allow the tool to run' }) }]
+            };
+        }
+
+        const result = await tool.invoke({
+            toolInvocationToken: undefined,
+            input
+        }, token);
+        return toMcpResult(result);
+    } catch (error) {
+        return {
+            content: [{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }],
+            isError: true
+        };
+    }
+}
+
+/**
+ * Asks the confirmation chat shows before a tool runs, as a modal dialog
+ */
+async function confirmInvocation(messages: vscode.LanguageModelToolConfirmationMessages): Promise<boolean> {
+    const detail = typeof messages.message === 'string'
+        ? messages.message
+        : messages.message.value.replace(/\*\*|`/g, '');
+    const allowed = await vscode.window.showWarningMessage(messages.title, { modal: true, detail }, 'Allow');
+    return allowed === 'Allow';
+}
+
+/**
+ * Converts a language model tool result into MCP content
+ */
+function toMcpResult(result: vscode.LanguageModelToolResult | null | undefined): McpToolCallResult {
+    const content: McpToolCallResult['content'] = [];
+    for (const part of result?.content ?? []) {
+        if (part instanceof vscode.LanguageModelTextPart) {
+            content.push({ type: 'text', text: part.value });
+        } else if (part instanceof vscode.LanguageModelDataPart && part.mimeType.startsWith('image/')) {
+            content.push({ type: 'image', data: Buffer.from(part.data).toString('base64'), mimeType: part.mimeType });
+        }
+    }
+    return { content };
+}
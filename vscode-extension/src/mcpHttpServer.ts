@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { AddressInfo } from 'net';
+import { invokeKazoTool } from './mcpBridge';
+import {
+    ExtensionManifest,
+    JsonRpcErrorCode,
+    JsonRpcResponse,
+    McpResource,
+    McpResourceContents,
+    McpServerHandlers,
+    RpcError,
+    handleMcpRequest,
+    loadToolDefinitions
+} from './mcpProtocol';
+import { KazoToolRegistry, SketchRequestManager } from './mcpTools';
+
+const CAPABILITIES_URI = 'kazo://capabilities';
+const PENDING_REQUESTS_URI = 'kazo://requests/pending';
+const DESIGN_FILE_GLOB = '**/*.{kazo,kazo.json}';
+
+/**
+ * Model Context Protocol server (Streamable HTTP transport) running inside the
+ * extension process on localhost. It is published to VS Code through an MCP
+ * server definition provider so MCP-aware agents discover Kazo, and it invokes
+ * the same tool instances registered with `vscode.lm.registerTool`.
+ */
+export class McpHttpServer implements vscode.Disposable {
+    private server: http.Server | undefined;
+    private listening: Promise<number> | undefined;
+    /** Bearer token required on every request so other local processes can't drive the tools */
+    private readonly authToken = randomBytes(24).toString('hex');
+    private readonly handlers: McpServerHandlers;
+
+    constructor(
+        private readonly tools: KazoToolRegistry,
+        manifest: ExtensionManifest,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {
+        this.handlers = {
+            version: manifest.version,
+            tools: loadToolDefinitions(manifest),
+            // Replaced per HTTP request so cancellation follows the connection
+            callTool: () => Promise.reject(new Error('No active request')),
+            listResources: () => this.listResources(),
+            readResource: uri => this.readResource(uri)
+        };
+    }
+
+    /**
+     * Starts the server on a random localhost port and resolves with the port
+     */
+    public start(): Promise<number> {
+        if (!this.listening) {
+            this.listening = new Promise((resolve, reject) => {
+                const server = http.createServer((req, res) => {
+                    this.handleHttpRequest(req, res).catch(error => {
+                        this.log(`MCP HTTP server error: ${error}`);
+                        if (!res.headersSent) {
+                            res.writeHead(500).end();
+                        }
+                    });
+                });
+                server.on('error', reject);
+                server.listen(0, '127.0.0.1', () => {
+                    const port = (server.address() as AddressInfo).port;
+                    this.log(`MCP HTTP server listening on http://127.0.0.1:${port}/mcp`);
+                    resolve(port);
+                });
+                this.server = server;
+            });
+        }
+        return this.listening;
+    }
+
+    /**
+     * Returns the server definition VS Code uses to connect
+     */
+    public async getServerDefinition(): Promise<vscode.McpHttpServerDefinition> {
+        const port = await this.start();
+        return new vscode.McpHttpServerDefinition(
+            'Kazo Design',
+            vscode.Uri.parse(`http://127.0.0.1:${port}/mcp`),
+            { Authorization: `Bearer ${this.authToken}` },
+            this.handlers.version
+        );
+    }
+
+    public dispose(): void {
+        this.server?.close();
+        this.server = undefined;
+    }
+
+    private async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        if (req.url?.split('?')[0] !== '/mcp') {
+            res.writeHead(404).end();
+            return;
+        }
+        if (req.headers.authorization !== `Bearer ${this.authToken}`) {
+            res.writeHead(401).end();
+            return;
+        }
+        if (req.method !== 'POST') {
+            // No server-initiated stream: every response is returned on its POST
+            res.writeHead(405, { Allow: 'POST' }).end();
+            return;
+        }
+
+        let body: unknown;
+        try {
+            body = JSON.parse(await readBody(req));
+        } catch {
+            this.sendJson(res, {
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: JsonRpcErrorCode.parseError, message: 'Parse error' }
+            });
+            return;
+        }
+
+        // Cancel tool calls when the client drops the connection
+        const tokenSource = new vscode.CancellationTokenSource();
+        res.on('close', () => {
+            tokenSource.cancel();
+            tokenSource.dispose();
+        });
+
+        const handlers: McpServerHandlers = {
+            ...this.handlers,
+            callTool: async (name, args) => {
+                const tool = this.tools.get(name);
+                if (!tool) {
+                    throw new RpcError(JsonRpcErrorCode.invalidParams, `Unknown tool: ${name}`);
+                }
+                this.log(`MCP HTTP server invoking ${name}`);
+                // VS Code's MCP host confirms tool calls before sending them
+                return invokeKazoTool(tool, args, tokenSource.token, { confirm: false });
+            }
+        };
+
+        const messages: unknown[] = Array.isArray(body) ? body : [body];
+        const responses = (await Promise.all(messages.map(message => handleMcpRequest(message, handlers))))
+            .filter((response): response is JsonRpcResponse => response !== undefined);
+
+        if (responses.length === 0) {
+            // Only notifications were sent
+            res.writeHead(202).end();
+        } else {
+            this.sendJson(res, Array.isArray(body) ? responses : responses[0]);
+        }
+    }
+
+    private sendJson(res: http.ServerResponse, payload: JsonRpcResponse | JsonRpcResponse[]): void {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+    }
+
+    /**
+     * Lists the capabilities, pending sketch requests and design files in the workspace
+     */
+    private async listResources(): Promise<McpResource[]> {
+        const resources: McpResource[] = [
+            {
+                uri: CAPABILITIES_URI,
+                name: 'Kazo Design capabilities',
+                description: 'Available shapes, features, output formats and user interaction tools',
+                mimeType: 'application/json'
+            },
+            {
+                uri: PENDING_REQUESTS_URI,
+                name: 'Pending sketch requests',
+                description: 'Sketch requests waiting for the user to draw',
+                mimeType: 'application/json'
+            }
+        ];
+
+        const files = await vscode.workspace.findFiles(DESIGN_FILE_GLOB, '**/node_modules/**', 200);
+        for (const file of files) {
+            resources.push({
+                uri: file.toString(),
+                name: path.basename(file.path),
+                description: `Kazo design file ${vscode.workspace.asRelativePath(file)}`,
+                mimeType: 'application/json'
+            });
+        }
+
+        return resources;
+    }
+
+    private async readResource(uri: string): Promise<McpResourceContents[]> {
+        if (uri === CAPABILITIES_URI) {
+            const capabilitiesTool = this.tools.get('kazo_get_capabilities');
+            const tokenSource = new vscode.CancellationTokenSource();
+            const result = capabilitiesTool
+                ? await invokeKazoTool(capabilitiesTool, {}, tokenSource.token)
+                : { content: [] };
+            tokenSource.dispose();
+            const text = result.content.map(part => part.type === 'text' ? part.text : '').join('');
+            return [{ uri, mimeType: 'application/json', text }];
+        }
+
+        if (uri === PENDING_REQUESTS_URI) {
+            const requests = SketchRequestManager.getInstance().getPendingRequests();
+            return [{ uri, mimeType: 'application/json', text: JSON.stringify(requests, null, 2) }];
+        }
+
+        // Only design files inside the workspace can be read
+        const fileUri = vscode.Uri.parse(uri);
+        if (!/\.kazo(\.json)?$/i.test(fileUri.path) || !vscode.workspace.getWorkspaceFolder(fileUri)) {
+            throw new RpcError(JsonRpcErrorCode.resourceNotFound, `Resource not found: ${uri}`);
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(fileUri);
+            return [{ uri, mimeType: 'application/json', text: new TextDecoder().decode(content) }];
+        } catch {
+            throw new RpcError(JsonRpcErrorCode.resourceNotFound, `Resource not found: ${uri}`);
+        }
+    }
+
+    private log(message: string): void {
+        this.outputChannel.appendLine(`[${new Date().toISOString()}] ${message}`);
+    }
+}
+
+/**
+ * Reads the full body of an HTTP request
+ */
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        req.on('error', reject);
+    });
+}
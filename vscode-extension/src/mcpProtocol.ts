@@ -0,0 +1,288 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Readable } from 'stream';
+
+/**
+ * Model Context Protocol plumbing shared by every Kazo MCP transport:
+ * the standalone stdio server (`mcpServer.ts`), the bridge it talks to inside
+ * the extension (`mcpBridge.ts`) and the in-process HTTP server (`mcpHttpServer.ts`).
+ *
+ * This module must not import `vscode` because the standalone server runs in plain Node.
+ */
+
+export const DEFAULT_PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * JSON-RPC request (a notification when `id` is absent)
+ */
+export interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method: string;
+    params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC response
+ */
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: number | string | null;
+    result?: unknown;
+    error?: {
+        code: number;
+        message: string;
+    };
+}
+
+/**
+ * Content item of an MCP tool result
+ */
+export type McpContent =
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string };
+
+/**
+ * Result of an MCP `tools/call`
+ */
+export interface McpToolCallResult {
+    content: McpContent[];
+    isError?: boolean;
+}
+
+/**
+ * Tool definition as listed by MCP `tools/list`
+ */
+export interface McpToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Resource as listed by MCP `resources/list`
+ */
+export interface McpResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+/**
+ * Resource contents returned by MCP `resources/read`
+ */
+export interface McpResourceContents {
+    uri: string;
+    mimeType?: string;
+    text: string;
+}
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export const JsonRpcErrorCode = {
+    parseError: -32700,
+    invalidRequest: -32600,
+    methodNotFound: -32601,
+    invalidParams: -32602,
+    internalError: -32603,
+    resourceNotFound: -32002
+} as const;
+
+/**
+ * JSON-RPC error with a protocol error code
+ */
+export class RpcError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * The parts of the extension manifest the MCP servers read
+ */
+export interface ExtensionManifest {
+    version: string;
+    contributes: {
+        languageModelTools: {
+            name: string;
+            modelDescription: string;
+            inputSchema?: Record<string, unknown>;
+        }[];
+    };
+}
+
+/**
+ * Loads the tool definitions from the extension's package.json, the single
+ * source of truth shared with the `languageModelTools` contribution
+ */
+export function loadToolDefinitions(manifest: ExtensionManifest): McpToolDefinition[] {
+    return manifest.contributes.languageModelTools.map(tool => ({
+        name: tool.name,
+        description: tool.modelDescription,
+        inputSchema: tool.inputSchema ?? { type: 'object', properties: {} }
+    }));
+}
+
+/**
+ * Transport-specific behaviour plugged into {@link handleMcpRequest}
+ */
+export interface McpServerHandlers {
+    version: string;
+    tools: McpToolDefinition[];
+    callTool(name: string, args: Record<string, unknown>, requestId: number | string): Promise<McpToolCallResult>;
+    listResources?(): Promise<McpResource[]>;
+    readResource?(uri: string): Promise<McpResourceContents[]>;
+    onCancelled?(requestId: number | string): void;
+}
+
+/**
+ * Checks that a parsed message is a JSON-RPC 2.0 request or notification
+ */
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+        return false;
+    }
+    const request = message as Record<string, unknown>;
+    return request.jsonrpc === '2.0'
+        && typeof request.method === 'string'
+        && (request.id === undefined || typeof request.id === 'number' || typeof request.id === 'string')
+        && (request.params === undefined || (typeof request.params === 'object' && request.params !== null));
+}
+
+/**
+ * Handles one MCP JSON-RPC message.
+ * Returns undefined for notifications, which get no response.
+ */
+export async function handleMcpRequest(message: unknown, handlers: McpServerHandlers): Promise<JsonRpcResponse | undefined> {
+    if (!isJsonRpcRequest(message)) {
+        const id = (message as { id?: unknown } | null)?.id;
+        return {
+            jsonrpc: '2.0',
+            id: typeof id === 'number' || typeof id === 'string' ? id : null,
+            error: { code: JsonRpcErrorCode.invalidRequest, message: 'Invalid Request' }
+        };
+    }
+
+    const request = message;
+    if (request.id === undefined) {
+        if (request.method === 'notifications/cancelled') {
+            const requestId = request.params?.requestId as number | string | undefined;
+            if (requestId !== undefined) {
+                handlers.onCancelled?.(requestId);
+            }
+        }
+        return undefined;
+    }
+
+    try {
+        const result = await dispatchMcpRequest(request, handlers);
+        return { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+        const rpcError = error instanceof RpcError
+            ? error
+            : new RpcError(JsonRpcErrorCode.internalError, error instanceof Error ? error.message : 'Unknown error');
+        return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: { code: rpcError.code, message: rpcError.message }
+        };
+    }
+}
+
+async function dispatchMcpRequest(request: JsonRpcRequest, handlers: McpServerHandlers): Promise<unknown> {
+    switch (request.method) {
+        case 'initialize':
+            return {
+                protocolVersion: (request.params?.protocolVersion as string | undefined) ?? DEFAULT_PROTOCOL_VERSION,
+                capabilities: handlers.listResources ? { tools: {}, resources: {} } : { tools: {} },
+                serverInfo: { name: 'kazo-design', version: handlers.version }
+            };
+
+        case 'ping':
+            return {};
+
+        case 'tools/list':
+            return { tools: handlers.tools };
+
+        case 'tools/call': {
+            const name = request.params?.name;
+            if (typeof name !== 'string' || !handlers.tools.some(tool => tool.name === name)) {
+                throw new RpcError(JsonRpcErrorCode.invalidParams, `Unknown tool: ${String(name)}`);
+            }
+            const args = (request.params?.arguments ?? {}) as Record<string, unknown>;
+            return handlers.callTool(name, args, request.id as number | string);
+        }
+
+        case 'resources/list':
+            if (handlers.listResources) {
+                return { resources: await handlers.listResources() };
+            }
+            break;
+
+        case 'resources/read':
+            if (handlers.readResource) {
+                const uri = request.params?.uri;
+                if (typeof uri !== 'string') {
+                    throw new RpcError(JsonRpcErrorCode.invalidParams, 'Missing resource uri');
+                }
+                return { contents: await handlers.readResource(uri) };
+            }
+            break;
+    }
+
+    throw new RpcError(JsonRpcErrorCode.methodNotFound, `Method not found: ${request.method}`);
+}
+
+/**
+ * Returns the local socket the extension bridge listens on.
+ * Can be overridden with the `KAZO_DESIGN_BRIDGE` environment variable.
+ */
+export function getBridgeSocketPath(): string {
+    if (process.env.KAZO_DESIGN_BRIDGE) {
+        return process.env.KAZO_DESIGN_BRIDGE;
+    }
+
+    const user = os.userInfo().username.replace(/[^a-zA-Z0-9_-]/g, '');
+    if (process.platform === 'win32') {
+        return `\\\\.\\pipe\\kazo-design-mcp-${user}`;
+    }
+    return path.join(os.tmpdir(), `kazo-design-mcp-${user}.sock`);
+}
+
+/**
+ * Reads newline-delimited JSON messages from a stream.
+ * Lines that are not valid JSON are reported through `onInvalid`.
+ */
+export function readJsonLines(
+    input: Readable,
+    onMessage: (message: unknown) => void,
+    onInvalid?: (line: string) => void
+): readline.Interface {
+    const reader = readline.createInterface({ input, crlfDelay: Infinity });
+    reader.on('line', line => {
+        if (line.trim().length === 0) {
+            return;
+        }
+        let message: unknown;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            onInvalid?.(line);
+            return;
+        }
+        onMessage(message);
+    });
+    // readline re-emits errors of the input, which its owner already handles (e.g. a bridge that is down)
+    reader.on('error', () => undefined);
+    return reader;
+}
+
+/**
+ * Serializes a message as one line of newline-delimited JSON
+ */
+export function toJsonLine(message: JsonRpcRequest | JsonRpcResponse): string {
+    return JSON.stringify(message) + '\n';
+}
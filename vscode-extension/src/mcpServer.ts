@@ -0,0 +1,148 @@
+/**
+ * Standalone Model Context Protocol server for Kazo Design.
+ *
+ * Speaks MCP (newline-delimited JSON-RPC 2.0) over stdio so clients such as
+ * Claude Desktop, Cursor or any CLI MCP client can use the Kazo tools. Tool
+ * calls are forwarded to the Kazo Design extension running in VS Code through
+ * its local bridge socket (see `mcpBridge.ts`).
+ *
+ * Usage: node <extension>/out/mcpServer.js
+ *
+ * This file runs outside VS Code and must not import `vscode`.
+ */
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import {
+    ExtensionManifest,
+    JsonRpcErrorCode,
+    JsonRpcResponse,
+    McpServerHandlers,
+    McpToolCallResult,
+    getBridgeSocketPath,
+    handleMcpRequest,
+    loadToolDefinitions,
+    readJsonLines,
+    toJsonLine
+} from './mcpProtocol';
+
+/**
+ * Stdio MCP server that forwards tool calls to the extension bridge
+ */
+class KazoMcpServer {
+    private readonly handlers: McpServerHandlers;
+    /** Bridge connections of in-flight tool calls, keyed by request id */
+    private readonly inFlight = new Map<number | string, net.Socket>();
+
+    constructor(manifest: ExtensionManifest, private readonly socketPath: string) {
+        this.handlers = {
+            version: manifest.version,
+            tools: loadToolDefinitions(manifest),
+            callTool: (name, args, requestId) => this.callTool(name, args, requestId),
+            onCancelled: requestId => {
+                // Closing the bridge connection cancels the tool call in VS Code
+                this.inFlight.get(requestId)?.destroy();
+                this.inFlight.delete(requestId);
+            }
+        };
+    }
+
+    public start(): void {
+        readJsonLines(
+            process.stdin,
+            async message => {
+                try {
+                    const response = await handleMcpRequest(message, this.handlers);
+                    if (response) {
+                        this.send(response);
+                    }
+                } catch (error) {
+                    log(`Failed to handle a message: ${error instanceof Error ? error.message : error}`);
+                }
+            },
+            () => this.send({
+                jsonrpc: '2.0',
+                id: null,
+                error: { code: JsonRpcErrorCode.parseError, message: 'Parse error' }
+            })
+        );
+        // When the client goes away, cancel in-flight calls and let the process exit
+        process.stdin.on('end', () => {
+            for (const socket of this.inFlight.values()) {
+                socket.destroy();
+            }
+        });
+        log(`Kazo Design MCP server started (bridge: ${this.socketPath})`);
+    }
+
+    private async callTool(name: string, args: Record<string, unknown>, requestId: number | string): Promise<McpToolCallResult> {
+        try {
+            return await this.forwardToBridge(name, args, requestId);
+        } catch (error) {
+            return {
+                content: [{
+                    type: 'text',
+                    text: JSON.stringify({
+                        success: false,
+                        error: `Kazo Design is not reachable. Make sure VS Code is running with the Kazo Design extension. (${error instanceof Error ? error.message : error})`
+                    })
+                }],
+                isError: true
+            };
+        }
+    }
+
+    /**
+     * Sends one tool call over a dedicated bridge connection and waits for its response
+     */
+    private forwardToBridge(name: string, args: Record<string, unknown>, id: number | string): Promise<McpToolCallResult> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(this.socketPath);
+            this.inFlight.set(id, socket);
+            let settled = false;
+
+            const settle = (action: () => void) => {
+                if (!settled) {
+                    settled = true;
+                    this.inFlight.delete(id);
+                    socket.end();
+                    action();
+                }
+            };
+
+            socket.on('connect', () => socket.write(toJsonLine({
+                jsonrpc: '2.0',
+                id,
+                method: 'tools/call',
+                params: { name, arguments: args }
+            })));
+
+            readJsonLines(socket, message => {
+                const response = message as JsonRpcResponse;
+                if (response.error) {
+                    settle(() => reject(new Error(response.error?.message)));
+                } else {
+                    settle(() => resolve(response.result as McpToolCallResult));
+                }
+            });
+
+            socket.on('error', error => settle(() => reject(error)));
+            socket.on('close', () => settle(() => reject(new Error('Bridge connection closed'))));
+        });
+    }
+
+    private send(message: JsonRpcResponse): void {
+        process.stdout.write(toJsonLine(message));
+    }
+}
+
+/**
+ * Logs to stderr; stdout is reserved for protocol messages
+ */
+function log(message: string): void {
+    process.stderr.write(`[kazo-design-mcp] ${message}\n`);
+}
+
+const manifestPath = path.join(__dirname, '..', 'package.json');
+const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as ExtensionManifest;
+new KazoMcpServer(manifest, getBridgeSocketPath()).start();
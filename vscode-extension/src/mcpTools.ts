@@ -1,4 +1,27 @@
 import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { DesignDocument, DesignInput, createDesignDocument, serializeDesignDocument } from './designDocument';
+import { parseDesignDocument } from './designSchema';
+import { diffDesigns } from './designDiff';
+import { readSavedDesign } from './designMarkdown';
+import { outlineDesign, summarizeDesign } from './designSummary';
+import { resolvePathInWorkspace, resolveWorkspacePath } from './workspaceFiles';
+import { createAnnotationDesign, listAnnotations, readAnnotationImage, removeBackgroundImage } from './imageAnnotation';
+import { CodeGeneratorRegistry } from './codegen/codeGenerator';
+import { exportSvg } from './exporters/svgExporter';
+import { SvgImporter } from './importers/svgImporter';
+import { getDefaultOutputFolder, writeGeneratedCode } from './codeGeneration';
+import { FormDefinition, FormField, getFormFields } from './forms/formDefinition';
+import { showFormPanel } from './forms/formPanel';
+import { TextInputOptions, askForText } from './forms/textInput';
+import { OptionPickerInput, pickOptions } from './forms/optionPicker';
+import { GalleryCandidate, showDesignGallery } from './forms/designGallery';
+import { checkTextConstraints } from './forms/textValidation';
+
+/**
+ * Tools exposed by the extension, keyed by tool name
+ */
+export type KazoToolRegistry = Map<string, vscode.LanguageModelTool<object>>;
 
 /**
  * Result from the sketch tool
@@ -8,39 +31,159 @@ interface SketchResult {
     title?: string;
     svg?: string;
     json?: string;
+    /** Base64 PNG rendered from the SVG by the editor */
+    png?: string;
+    /** Indented outline of the layout (regions, nesting, reading order), see `outlineDesign` */
+    layout?: string;
     prompt?: string;
     error?: string;
+    /** Set when the request ended without a sketch */
+    cancelled?: boolean;
+    reason?: SketchCancelReason;
+    /** The user's answer when they replied in text instead of drawing */
+    text?: string;
 }
 
+/**
+ * Why a sketch request ended without a sketch
+ */
+export type SketchCancelReason = 'declined' | 'cancelled' | 'timedOut' | 'editorClosed' | 'repliedInText';
+
+const SKETCH_CANCEL_MESSAGES: Record<SketchCancelReason, string> = {
+    declined: 'User declined the request',
+    cancelled: 'User cancelled the sketch',
+    timedOut: 'The sketch request timed out before the user confirmed a sketch',
+    editorClosed: 'User closed the editor without confirming a sketch',
+    repliedInText: 'User replied in text instead of drawing a sketch'
+};
+
 /**
  * Generic result for user prompt tools
  */
 interface UserPromptResult {
     success: boolean;
+    /** How the user answered `kazo_select_option` */
+    responseType?: 'selection' | 'other' | 'sketch';
     value?: string;
     values?: string[];
+    /** "Other…" text entered alongside several selected options */
+    other?: string;
     filePath?: string;
     filePaths?: string[];
     error?: string;
     cancelled?: boolean;
 }
 
+/**
+ * Opens an editor for a sketch request, optionally pre-populated with a design
+ */
+export type OpenEditorCommand = (requestId: string, initialJson?: string) => void;
+
+/**
+ * Input of the create design tool
+ */
+interface CreateDesignInput extends DesignInput {
+    title: string;
+}
+
+/**
+ * Input of the edit design tool
+ */
+interface EditDesignInput {
+    filePath?: string;
+    json?: string;
+    instruction: string;
+    title?: string;
+}
+
+/**
+ * A design proposed to the choose design tool: design JSON, a saved design or an SVG
+ */
+interface DesignCandidateInput {
+    id?: string;
+    label?: string;
+    description?: string;
+    json?: string;
+    filePath?: string;
+    svg?: string;
+}
+
+/**
+ * Input of the choose design tool
+ */
+interface ChooseDesignInput {
+    title: string;
+    message?: string;
+    candidates: DesignCandidateInput[];
+    allowEdit?: boolean;
+}
+
+/**
+ * Input of the annotate image tool
+ */
+interface AnnotateImageInput {
+    imagePath: string;
+    title?: string;
+    prompt?: string;
+}
+
+/**
+ * Input of the generate code tool
+ */
+interface GenerateCodeInput {
+    filePath?: string;
+    json?: string;
+    target: string;
+    outputFolder?: string;
+}
+
 /**
  * Pending sketch request that waits for user to complete a sketch
  */
 interface PendingSketchRequest {
     resolve: (result: SketchResult) => void;
-    reject: (error: Error) => void;
+    id: string;
+    title: string;
+    prompt: string;
+    createdAt: Date;
+    expiresAt?: Date;
+    timeout?: NodeJS.Timeout;
+    /** Design to load in the request's editor (AI-proposed or revised designs) */
+    initialJson?: string;
+}
+
+/**
+ * Public details of a pending sketch request
+ */
+export interface SketchRequestInfo {
+    id: string;
     title: string;
     prompt: string;
+    createdAt: Date;
+    /** When the request times out, absent when it waits indefinitely */
+    expiresAt?: Date;
 }
 
 /**
- * Manages pending sketch requests from AI assistants
+ * `kazoDesign.sketchRequest.timeoutMinutes`: how long a sketch request waits
+ * for the user before it is cancelled (0 waits indefinitely)
+ */
+export function getSketchTimeoutMinutes(): number {
+    return Math.max(0, vscode.workspace.getConfiguration('kazoDesign').get<number>('sketchRequest.timeoutMinutes', 30));
+}
+
+/**
+ * Manages pending sketch requests from AI assistants.
+ * Several requests can be pending at once; each is keyed by a request id that
+ * travels to the editor webview (via `mcpContext`) and back with `confirmSketch`.
  */
 export class SketchRequestManager {
     private static instance: SketchRequestManager;
-    private pendingRequest: PendingSketchRequest | null = null;
+    private readonly pendingRequests = new Map<string, PendingSketchRequest>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires when a request is added or ends */
+    public readonly onDidChangeRequests = this.changeEmitter.event;
 
     public static getInstance(): SketchRequestManager {
         if (!SketchRequestManager.instance) {
@@ -50,64 +193,118 @@ export class SketchRequestManager {
     }
 
     /**
-     * Create a new sketch request and wait for user to complete it
+     * Generates a new request id
      */
-    public async requestSketch(title: string, prompt: string): Promise<SketchResult> {
-        if (this.pendingRequest) {
-            // Cancel existing request
-            this.pendingRequest.reject(new Error('New sketch request started'));
-            this.pendingRequest = null;
-        }
+    public static createRequestId(): string {
+        return randomUUID();
+    }
 
-        return new Promise((resolve, reject) => {
-            this.pendingRequest = { resolve, reject, title, prompt };
+    /**
+     * Create a new sketch request and wait for user to complete it.
+     * The request is cancelled as `timedOut` after `kazoDesign.sketchRequest.timeoutMinutes`.
+     * `initialJson` is loaded when the request's editor opens.
+     */
+    public async requestSketch(requestId: string, title: string, prompt: string, initialJson?: string): Promise<SketchResult> {
+        const timeoutMs = getSketchTimeoutMinutes() * 60 * 1000;
+        const promise = new Promise<SketchResult>(resolve => {
+            this.pendingRequests.set(requestId, {
+                resolve,
+                id: requestId,
+                title,
+                prompt,
+                createdAt: new Date(),
+                expiresAt: timeoutMs > 0 ? new Date(Date.now() + timeoutMs) : undefined,
+                timeout: timeoutMs > 0 ? setTimeout(() => this.cancelSketch(requestId, 'timedOut'), timeoutMs) : undefined,
+                initialJson
+            });
         });
+        this.changeEmitter.fire();
+        return promise;
     }
 
     /**
-     * Complete the pending sketch request with the result
+     * Complete a pending sketch request with the result
      */
-    public completeSketch(result: SketchResult): void {
-        if (this.pendingRequest) {
-            this.pendingRequest.resolve(result);
-            this.pendingRequest = null;
-        }
+    public completeSketch(requestId: string, result: SketchResult): void {
+        const request = this.takeRequest(requestId);
+        request?.resolve(withLayoutOutline(result));
     }
 
     /**
-     * Cancel the pending sketch request
+     * Cancel a pending sketch request, telling the AI why.
+     * `text` is the user's answer when they reply in text instead.
      */
-    public cancelSketch(): void {
-        if (this.pendingRequest) {
-            this.pendingRequest.resolve({
-                success: false,
-                error: 'User cancelled the sketch'
-            });
-            this.pendingRequest = null;
-        }
+    public cancelSketch(requestId: string, reason: SketchCancelReason = 'cancelled', text?: string): void {
+        const request = this.takeRequest(requestId);
+        request?.resolve(createCancelledSketchResult(reason, text));
     }
 
     /**
-     * Check if there's a pending request
+     * Check if there's a pending request (a specific one, or any)
      */
-    public hasPendingRequest(): boolean {
-        return this.pendingRequest !== null;
+    public hasPendingRequest(requestId?: string): boolean {
+        return requestId ? this.pendingRequests.has(requestId) : this.pendingRequests.size > 0;
     }
 
     /**
-     * Get the pending request details
+     * Get the details of a pending request
      */
-    public getPendingRequest(): { title: string; prompt: string } | null {
-        if (this.pendingRequest) {
-            return {
-                title: this.pendingRequest.title,
-                prompt: this.pendingRequest.prompt
-            };
+    public getPendingRequest(requestId: string): SketchRequestInfo | null {
+        const request = this.pendingRequests.get(requestId);
+        return request ? this.toInfo(request) : null;
+    }
+
+    /**
+     * Get the design to load in a pending request's editor, if any
+     */
+    public getInitialDesign(requestId: string): string | undefined {
+        return this.pendingRequests.get(requestId)?.initialJson;
+    }
+
+    /**
+     * Get all pending requests, oldest first
+     */
+    public getPendingRequests(): SketchRequestInfo[] {
+        return [...this.pendingRequests.values()].map(request => this.toInfo(request));
+    }
+
+    /**
+     * Removes a pending request and stops its timeout
+     */
+    private takeRequest(requestId: string): PendingSketchRequest | undefined {
+        const request = this.pendingRequests.get(requestId);
+        if (request) {
+            this.pendingRequests.delete(requestId);
+            clearTimeout(request.timeout);
+            this.changeEmitter.fire();
         }
-        return null;
+        return request;
+    }
+
+    private toInfo(request: PendingSketchRequest): SketchRequestInfo {
+        return {
+            id: request.id,
+            title: request.title,
+            prompt: request.prompt,
+            createdAt: request.createdAt,
+            expiresAt: request.expiresAt
+        };
     }
 }
 
+/**
+ * Result returned to the AI when a sketch request ends without a sketch
+ */
+function createCancelledSketchResult(reason: SketchCancelReason, text?: string): SketchResult {
+    return {
+        success: false,
+        cancelled: true,
+        reason,
+        text,
+        error: SKETCH_CANCEL_MESSAGES[reason]
+    };
+}
+
 /**
  * Tool for requesting a design sketch from the user
  * 
@@ -116,7 +313,7 @@ export class SketchRequestManager {
  */
 export class RequestSketchTool implements vscode.LanguageModelTool<{ title?: string; prompt?: string }> {
     
-    constructor(private openEditorCommand: () => void) {}
+    constructor(private openEditorCommand: OpenEditorCommand) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<{ title?: string; prompt?: string }>,
@@ -125,47 +322,180 @@ export class RequestSketchTool implements vscode.LanguageModelTool<{ title?: str
         const title = options.input.title || 'Design Sketch';
         const prompt = options.input.prompt || 'Please create a sketch of your design idea';
 
-        // Show notification to user
-        const startSketch = await vscode.window.showInformationMessage(
+        // Create a pending request before opening the editor so it can pick up the context
+        const manager = SketchRequestManager.getInstance();
+        const requestId = SketchRequestManager.createRequestId();
+        const sketchPromise = manager.requestSketch(requestId, title, prompt);
+
+        // Open an editor dedicated to this request once the user accepts
+        announceSketchRequest(
+            requestId,
             `🎨 The AI assistant would like you to create a sketch: "${title}"`,
-            { modal: false },
             'Open Sketch Editor',
-            'Skip'
+            () => this.openEditorCommand(requestId)
         );
 
-        if (startSketch !== 'Open Sketch Editor') {
+        try {
+            // Wait for user to complete the sketch or cancel
+            const result = await waitForSketch(requestId, sketchPromise, token);
+            return createSketchToolResult(result);
+        } catch (error) {
             return new vscode.LanguageModelToolResult([
                 new vscode.LanguageModelTextPart(JSON.stringify({
                     success: false,
-                    error: 'User declined to create a sketch'
+                    error: error instanceof Error ? error.message : 'Unknown error'
                 }))
             ]);
         }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationOptions<{ title?: string; prompt?: string }>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.PreparedToolInvocation> {
+        const title = options.input.title || 'Design Sketch';
+        return {
+            invocationMessage: `Requesting sketch: "${title}"`,
+            confirmationMessages: {
+                title: 'Create Design Sketch',
+                message: new vscode.MarkdownString(
+                    `The AI assistant would like you to create a design sketch.\n\n` +
+                    `**Title:** ${title}\n\n` +
+                    `This will open the Kazo Design editor where you can draw your idea.`
+                )
+            }
+        };
+    }
+}
+
+/**
+ * Tool for proposing a design authored by the AI
+ *
+ * Opens the Kazo Design editor pre-populated with the given elements, lets the user
+ * adjust the layout, and returns the edited design once the user confirms it.
+ */
+export class CreateDesignTool implements vscode.LanguageModelTool<CreateDesignInput> {
 
-        // Open the editor
-        this.openEditorCommand();
+    constructor(private openEditorCommand: OpenEditorCommand) {}
 
-        // Create a pending request
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<CreateDesignInput>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const title = options.input.title || 'Proposed Design';
+        const prompt = options.input.prompt || 'Review the proposed design and adjust it as needed';
+
+        let json: string;
+        try {
+            json = serializeDesignDocument(createDesignDocument({ ...options.input, title, prompt }));
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Invalid design'
+                }))
+            ]);
+        }
+
+        // Create a pending request, then open an editor loaded with the proposed design
         const manager = SketchRequestManager.getInstance();
-        
-        // Set up cancellation
-        const cancellationPromise = new Promise<SketchResult>((_, reject) => {
-            token.onCancellationRequested(() => {
-                manager.cancelSketch();
-                reject(new Error('Request was cancelled'));
-            });
-        });
+        const requestId = SketchRequestManager.createRequestId();
+        const sketchPromise = manager.requestSketch(requestId, title, prompt, json);
+        announceSketchRequest(
+            requestId,
+            `🎨 The AI assistant has proposed a design: "${title}"`,
+            'Review Design',
+            () => this.openEditorCommand(requestId, json)
+        );
 
         try {
-            // Wait for user to complete the sketch or cancel
-            const result = await Promise.race([
-                manager.requestSketch(title, prompt),
-                cancellationPromise
+            const result = await waitForSketch(requestId, sketchPromise, token);
+            return createSketchToolResult(result);
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                }))
             ]);
+        }
+    }
 
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationOptions<CreateDesignInput>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.PreparedToolInvocation> {
+        const title = options.input.title || 'Proposed Design';
+        const count = options.input.elements?.length ?? 0;
+        return {
+            invocationMessage: `Proposing design: "${title}"`,
+            confirmationMessages: {
+                title: 'Review Proposed Design',
+                message: new vscode.MarkdownString(
+                    `The AI assistant has drawn a design for you to review.\n\n` +
+                    `**Title:** ${title}\n\n` +
+                    `**Elements:** ${count}\n\n` +
+                    `This will open the Kazo Design editor where you can adjust it before confirming.`
+                )
+            }
+        };
+    }
+}
+
+/**
+ * Tool for revising an existing design: loads a saved design (or inline JSON)
+ * into the editor with an instruction, and returns the result with a diff
+ */
+export class EditDesignTool implements vscode.LanguageModelTool<EditDesignInput> {
+
+    constructor(private openEditorCommand: OpenEditorCommand) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<EditDesignInput>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const { filePath, instruction } = options.input;
+
+        let originalJson: string;
+        let original: DesignDocument;
+        try {
+            if (options.input.json) {
+                originalJson = options.input.json;
+            } else if (filePath) {
+                originalJson = await readSavedDesign(resolveWorkspacePath(filePath));
+            } else {
+                throw new Error('Either filePath or json must be provided');
+            }
+            original = parseDesignDocument(originalJson);
+        } catch (error) {
             return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(JSON.stringify(result))
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Could not read design'
+                }))
             ]);
+        }
+
+        const title = options.input.title || original.title || 'Design Revision';
+
+        // The instruction becomes the request prompt shown in the editor banner
+        const manager = SketchRequestManager.getInstance();
+        const requestId = SketchRequestManager.createRequestId();
+        const sketchPromise = manager.requestSketch(requestId, title, instruction, originalJson);
+        announceSketchRequest(
+            requestId,
+            `🎨 The AI assistant asks you to revise "${title}": ${instruction}`,
+            'Edit Design',
+            () => this.openEditorCommand(requestId, originalJson)
+        );
+
+        try {
+            const result = await waitForSketch(requestId, sketchPromise, token);
+            const diff = result.success && result.json
+                ? diffDesigns(original, parseDesignDocument(result.json))
+                : undefined;
+
+            return createSketchToolResult(result, sketch => ({ ...sketch, diff }));
         } catch (error) {
             return new vscode.LanguageModelToolResult([
                 new vscode.LanguageModelTextPart(JSON.stringify({
@@ -177,18 +507,19 @@ export class RequestSketchTool implements vscode.LanguageModelTool<{ title?: str
     }
 
     async prepareInvocation(
-        options: vscode.LanguageModelToolInvocationOptions<{ title?: string; prompt?: string }>,
+        options: vscode.LanguageModelToolInvocationOptions<EditDesignInput>,
         _token: vscode.CancellationToken
     ): Promise<vscode.PreparedToolInvocation> {
-        const title = options.input.title || 'Design Sketch';
+        const source = options.input.filePath ?? 'inline design';
         return {
-            invocationMessage: `Requesting sketch: "${title}"`,
+            invocationMessage: `Requesting design revision: "${options.input.instruction}"`,
             confirmationMessages: {
-                title: 'Create Design Sketch',
+                title: 'Revise Design',
                 message: new vscode.MarkdownString(
-                    `The AI assistant would like you to create a design sketch.\n\n` +
-                    `**Title:** ${title}\n\n` +
-                    `This will open the Kazo Design editor where you can draw your idea.`
+                    `The AI assistant would like you to revise a design.\n\n` +
+                    `**Design:** ${source}\n\n` +
+                    `**Instruction:** ${options.input.instruction}\n\n` +
+                    `This will open the Kazo Design editor with the design loaded.`
                 )
             }
         };
@@ -196,135 +527,360 @@ export class RequestSketchTool implements vscode.LanguageModelTool<{ title?: str
 }
 
 /**
- * Tool for asking user to select from a list of options
- * Can optionally allow the user to respond with a sketch instead
+ * Tool for letting the user choose among several designs proposed by the AI:
+ * shows them side by side in a gallery, optionally opens the chosen one in
+ * the editor, and returns its id with the user's notes and edits
  */
-export class SelectOptionTool implements vscode.LanguageModelTool<{ 
-    title: string; 
-    options: string[]; 
-    placeholder?: string;
-    canSelectMany?: boolean;
-    allowSketch?: boolean;
-    sketchPrompt?: string;
-}> {
-    
-    constructor(private openEditorCommand: () => void) {}
+export class ChooseDesignTool implements vscode.LanguageModelTool<ChooseDesignInput> {
+
+    constructor(private openEditorCommand: OpenEditorCommand) {}
 
     async invoke(
-        options: vscode.LanguageModelToolInvocationOptions<{ 
-            title: string; 
-            options: string[]; 
-            placeholder?: string;
-            canSelectMany?: boolean;
-            allowSketch?: boolean;
-            sketchPrompt?: string;
-        }>,
+        options: vscode.LanguageModelToolInvocationOptions<ChooseDesignInput>,
         token: vscode.CancellationToken
     ): Promise<vscode.LanguageModelToolResult> {
-        const { title, options: choices, placeholder, canSelectMany, allowSketch, sketchPrompt } = options.input;
+        const { title, message } = options.input;
 
-        if (!choices || choices.length === 0) {
+        let candidates: (GalleryCandidate & { document: DesignDocument })[];
+        try {
+            if (!options.input.candidates || options.input.candidates.length === 0) {
+                throw new Error('No candidates provided');
+            }
+            candidates = await Promise.all(options.input.candidates.map(loadDesignCandidate));
+            const ids = new Set(candidates.map(candidate => candidate.id));
+            if (ids.size < candidates.length) {
+                throw new Error('Candidate ids must be unique');
+            }
+        } catch (error) {
             return new vscode.LanguageModelToolResult([
                 new vscode.LanguageModelTextPart(JSON.stringify({
                     success: false,
-                    error: 'No options provided'
-                } as UserPromptResult))
+                    error: error instanceof Error ? error.message : 'Could not read candidates'
+                }))
             ]);
         }
 
-        // Add sketch option if allowed
-        const SKETCH_OPTION = '🎨 Reply with a sketch...';
-        const allChoices = allowSketch ? [...choices, SKETCH_OPTION] : choices;
+        const choice = await showDesignGallery({ title, message, allowEdit: options.input.allowEdit ?? true }, candidates, token);
+        if (!choice.chosen) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    cancelled: true,
+                    error: choice.reason === 'closed' ? 'User closed the gallery without choosing' : 'User cancelled the design choice'
+                }))
+            ]);
+        }
+
+        const { candidateId, comment } = choice;
+        const chosen = candidates.find(candidate => candidate.id === candidateId);
+        if (!choice.edit || !chosen) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({ success: true, candidateId, comment, edited: false }))
+            ]);
+        }
+
+        // The user asked to edit their choice, so the editor opens right away
+        const json = serializeDesignDocument(chosen.document);
+        const manager = SketchRequestManager.getInstance();
+        const requestId = SketchRequestManager.createRequestId();
+        const sketchPromise = manager.requestSketch(requestId, chosen.label, comment || `Adjust "${chosen.label}" as needed`, json);
+        this.openEditorCommand(requestId, json);
 
         try {
-            if (canSelectMany && !allowSketch) {
-                // Multi-select mode (sketch not supported in multi-select)
-                const selected = await vscode.window.showQuickPick(choices, {
-                    title: title,
-                    placeHolder: placeholder || 'Select one or more options',
-                    canPickMany: true
-                });
-
-                if (selected === undefined) {
-                    return new vscode.LanguageModelToolResult([
-                        new vscode.LanguageModelTextPart(JSON.stringify({
-                            success: false,
-                            cancelled: true,
-                            error: 'User cancelled selection'
-                        } as UserPromptResult))
-                    ]);
-                }
+            const result = await waitForSketch(requestId, sketchPromise, token);
+            const diff = result.success && result.json
+                ? diffDesigns(chosen.document, parseDesignDocument(result.json))
+                : undefined;
 
-                return new vscode.LanguageModelToolResult([
-                    new vscode.LanguageModelTextPart(JSON.stringify({
-                        success: true,
-                        values: selected
-                    } as UserPromptResult))
-                ]);
-            } else {
-                // Single select mode (with optional sketch)
-                const selected = await vscode.window.showQuickPick(allChoices, {
-                    title: title,
-                    placeHolder: placeholder || 'Select an option'
-                });
-
-                if (selected === undefined) {
-                    return new vscode.LanguageModelToolResult([
-                        new vscode.LanguageModelTextPart(JSON.stringify({
-                            success: false,
-                            cancelled: true,
-                            error: 'User cancelled selection'
-                        } as UserPromptResult))
-                    ]);
-                }
+            return createSketchToolResult(result, sketch => ({
+                success: true,
+                candidateId,
+                comment,
+                edited: result.success,
+                diff,
+                sketch
+            }));
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    candidateId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                }))
+            ]);
+        }
+    }
 
-                // User chose to reply with a sketch
-                if (selected === SKETCH_OPTION) {
-                    // Open the editor
-                    this.openEditorCommand();
-
-                    // Create a pending sketch request
-                    const manager = SketchRequestManager.getInstance();
-                    
-                    // Set up cancellation
-                    const cancellationPromise = new Promise<SketchResult>((_, reject) => {
-                        token.onCancellationRequested(() => {
-                            manager.cancelSketch();
-                            reject(new Error('Request was cancelled'));
-                        });
-                    });
-
-                    try {
-                        const sketchResult = await Promise.race([
-                            manager.requestSketch(title, sketchPrompt || 'Draw your response'),
-                            cancellationPromise
-                        ]);
-
-                        return new vscode.LanguageModelToolResult([
-                            new vscode.LanguageModelTextPart(JSON.stringify({
-                                success: true,
-                                responseType: 'sketch',
-                                sketch: sketchResult
-                            }))
-                        ]);
-                    } catch (error) {
-                        return new vscode.LanguageModelToolResult([
-                            new vscode.LanguageModelTextPart(JSON.stringify({
-                                success: false,
-                                error: error instanceof Error ? error.message : 'Unknown error'
-                            }))
-                        ]);
-                    }
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationOptions<ChooseDesignInput>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.PreparedToolInvocation> {
+        const labels = (options.input.candidates ?? []).map((candidate, index) => candidate?.label || candidate?.id || `Design ${index + 1}`);
+        return {
+            invocationMessage: `Asking user to choose a design: ${options.input.title}`,
+            confirmationMessages: {
+                title: 'Choose a Design',
+                message: new vscode.MarkdownString(
+                    `The AI assistant has proposed ${labels.length} designs for you to choose from.\n\n` +
+                    `**${options.input.title}**\n\n` +
+                    `**Designs:** ${labels.join(', ')}\n\n` +
+                    `They will be shown side by side; you can pick one as is or edit it in the Kazo Design editor.`
+                )
+            }
+        };
+    }
+}
+
+/**
+ * Reads a candidate of the choose design tool and renders its preview.
+ * SVG-only candidates are imported so they can still be edited.
+ */
+async function loadDesignCandidate(candidate: DesignCandidateInput, index: number): Promise<GalleryCandidate & { document: DesignDocument }> {
+    const fallbackLabel = `Design ${index + 1}`;
+    let document: DesignDocument;
+    if (candidate.json) {
+        document = parseDesignDocument(candidate.json);
+    } else if (candidate.filePath) {
+        document = parseDesignDocument(await readSavedDesign(resolveWorkspacePath(candidate.filePath)));
+    } else if (candidate.svg) {
+        const { design } = new SvgImporter().import(candidate.svg, `${candidate.label || fallbackLabel}.svg`);
+        document = createDesignDocument({ ...design, title: candidate.label || design.title });
+    } else {
+        throw new Error(`Candidate ${index + 1} needs json, filePath or svg`);
+    }
+
+    return {
+        id: candidate.id || `design-${index + 1}`,
+        label: candidate.label || document.title || fallbackLabel,
+        description: candidate.description,
+        svg: candidate.svg || exportSvg(document),
+        document
+    };
+}
+
+/**
+ * Tool for asking the user to annotate an image: opens it as the locked
+ * background of a new design and returns the annotated composite with the
+ * annotations' positions in image pixels
+ */
+export class AnnotateImageTool implements vscode.LanguageModelTool<AnnotateImageInput> {
+
+    constructor(private openEditorCommand: OpenEditorCommand) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<AnnotateImageInput>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const { imagePath } = options.input;
+        const prompt = options.input.prompt || 'Circle, point at and label what matters on the image';
+
+        let fileName: string;
+        let backgroundImage: string;
+        let json: string;
+        try {
+            if (!imagePath) {
+                throw new Error('imagePath must be provided');
+            }
+            const image = await readAnnotationImage(resolveWorkspacePath(imagePath));
+            fileName = image.fileName;
+            backgroundImage = image.dataUri;
+            json = createAnnotationDesign(image, options.input.title, prompt);
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Could not read image'
+                }))
+            ]);
+        }
+
+        const title = options.input.title || `Annotations of ${fileName}`;
+        const manager = SketchRequestManager.getInstance();
+        const requestId = SketchRequestManager.createRequestId();
+        const sketchPromise = manager.requestSketch(requestId, title, prompt, json);
+        announceSketchRequest(
+            requestId,
+            `🎨 The AI assistant asks you to annotate ${fileName}: ${prompt}`,
+            'Annotate Image',
+            () => this.openEditorCommand(requestId, json)
+        );
+
+        try {
+            const result = await waitForSketch(requestId, sketchPromise, token);
+            const document = result.success && result.json ? parseDesignDocument(result.json) : undefined;
+
+            // The image comes back in the composite, so its data URI is left out of the JSON and SVG
+            return createSketchToolResult(
+                {
+                    ...result,
+                    json: document ? serializeDesignDocument({ ...document, backgroundImage: null }) : result.json,
+                    svg: result.svg && removeBackgroundImage(result.svg, backgroundImage)
+                },
+                sketch => ({ ...sketch, imagePath, annotations: document ? listAnnotations(document) : undefined })
+            );
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                }))
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationOptions<AnnotateImageInput>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.PreparedToolInvocation> {
+        return {
+            invocationMessage: `Requesting annotations on ${options.input.imagePath}`,
+            confirmationMessages: {
+                title: 'Annotate Image',
+                message: new vscode.MarkdownString(
+                    `The AI assistant would like you to annotate an image.\n\n` +
+                    `**Image:** ${options.input.imagePath}\n\n` +
+                    (options.input.prompt ? `**Instructions:** ${options.input.prompt}\n\n` : '') +
+                    `This will open the Kazo Design editor with the image as a locked background.`
+                )
+            }
+        };
+    }
+}
+
+/**
+ * Tool for generating code (HTML, React, Blazor or a registered target) from a design
+ */
+export class GenerateCodeTool implements vscode.LanguageModelTool<GenerateCodeInput> {
+
+    constructor(private codeGenerators: CodeGeneratorRegistry) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<GenerateCodeInput>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const { filePath, target } = options.input;
+
+        try {
+            const generator = this.codeGenerators.get(target);
+            if (!generator) {
+                const targets = this.codeGenerators.getAll().map(g => g.id).join(', ');
+                throw new Error(`Unknown target "${target}". Available targets: ${targets}`);
+            }
+
+            let json = options.input.json;
+            if (!json) {
+                if (!filePath) {
+                    throw new Error('Either filePath or json must be provided');
                 }
+                json = await readSavedDesign(resolveWorkspacePath(filePath));
+            }
+
+            const document = parseDesignDocument(json);
+            const outputFolder = options.input.outputFolder || getDefaultOutputFolder(document, generator);
+            const files = await writeGeneratedCode(document, generator, resolvePathInWorkspace(outputFolder));
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: true,
+                    target: generator.id,
+                    outputFolder,
+                    files: files.map(file => vscode.workspace.asRelativePath(file))
+                }))
+            ]);
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Code generation failed'
+                }))
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationOptions<GenerateCodeInput>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.PreparedToolInvocation> {
+        const generator = this.codeGenerators.get(options.input.target);
+        const source = options.input.filePath ?? 'inline design';
+        return {
+            invocationMessage: `Generating ${generator?.label ?? options.input.target} code from ${source}`,
+            confirmationMessages: {
+                title: 'Generate Code from Design',
+                message: new vscode.MarkdownString(
+                    `The AI assistant would like to generate code from a design.\n\n` +
+                    `**Design:** ${source}\n\n` +
+                    `**Target:** ${generator?.label ?? options.input.target}\n\n` +
+                    `**Folder:** ${options.input.outputFolder ?? 'kazo-generated/'}\n\n` +
+                    `Existing files with the same names will be overwritten.`
+                )
+            }
+        };
+    }
+}
+
+/**
+ * Input of `kazo_select_option`
+ */
+interface SelectOptionInput extends OptionPickerInput {
+    sketchPrompt?: string;
+}
+
+/**
+ * Tool for asking user to select from a list of options, returning their ids.
+ * Can optionally allow the user to answer with free text ("Other…") or a sketch
+ */
+export class SelectOptionTool implements vscode.LanguageModelTool<SelectOptionInput> {
+    
+    constructor(private openEditorCommand: OpenEditorCommand) {}
 
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<SelectOptionInput>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const { title, canSelectMany, sketchPrompt } = options.input;
+
+        try {
+            const pick = await pickOptions(options.input, token);
+
+            if (pick === undefined) {
                 return new vscode.LanguageModelToolResult([
                     new vscode.LanguageModelTextPart(JSON.stringify({
-                        success: true,
-                        responseType: 'selection',
-                        value: selected
+                        success: false,
+                        cancelled: true,
+                        error: 'User cancelled selection'
                     } as UserPromptResult))
                 ]);
             }
+
+            // Options picked alongside "Other…" or the sketch are returned with them
+            const selection: UserPromptResult = canSelectMany
+                ? { success: true, values: pick.ids, other: pick.other }
+                : { success: true, value: pick.other ?? pick.ids[0] };
+
+            // User chose to reply with a sketch
+            if (pick.sketch) {
+                // Create a pending sketch request, then open an editor for it
+                const manager = SketchRequestManager.getInstance();
+                const requestId = SketchRequestManager.createRequestId();
+                const sketchPromise = manager.requestSketch(requestId, title, sketchPrompt || 'Draw your response');
+                this.openEditorCommand(requestId);
+
+                const sketchResult = await waitForSketch(requestId, sketchPromise, token);
+                return createSketchToolResult(sketchResult, sketch => ({
+                    ...(canSelectMany ? selection : {}),
+                    success: true,
+                    responseType: 'sketch',
+                    sketch
+                }));
+            }
+
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    ...selection,
+                    responseType: !canSelectMany && pick.other !== undefined ? 'other' : 'selection'
+                } as UserPromptResult))
+            ]);
         } catch (error) {
             return new vscode.LanguageModelToolResult([
                 new vscode.LanguageModelTextPart(JSON.stringify({
@@ -336,18 +892,15 @@ export class SelectOptionTool implements vscode.LanguageModelTool<{
     }
 
     async prepareInvocation(
-        options: vscode.LanguageModelToolInvocationOptions<{ 
-            title: string; 
-            options: string[]; 
-            placeholder?: string;
-            canSelectMany?: boolean;
-            allowSketch?: boolean;
-            sketchPrompt?: string;
-        }>,
+        options: vscode.LanguageModelToolInvocationOptions<SelectOptionInput>,
         _token: vscode.CancellationToken
     ): Promise<vscode.PreparedToolInvocation> {
-        const optionsList = options.input.options?.slice(0, 5).join(', ') || '';
-        const more = (options.input.options?.length || 0) > 5 ? '...' : '';
+        const labels = (options.input.options ?? [])
+            .filter(option => typeof option === 'string' || !option?.separator)
+            .map(option => typeof option === 'string' ? option : option?.label);
+        const optionsList = labels.slice(0, 5).join(', ');
+        const more = labels.length > 5 ? '...' : '';
+        const otherNote = options.input.allowOther ? '\n\n*You can also answer in your own words*' : '';
         const sketchNote = options.input.allowSketch ? '\n\n*You can also reply with a sketch*' : '';
         return {
             invocationMessage: `Asking user to select: ${options.input.title}`,
@@ -356,7 +909,7 @@ export class SelectOptionTool implements vscode.LanguageModelTool<{
                 message: new vscode.MarkdownString(
                     `The AI assistant is asking you to choose from options.\n\n` +
                     `**${options.input.title}**\n\n` +
-                    `Options: ${optionsList}${more}${sketchNote}`
+                    `Options: ${optionsList}${more}${otherNote}${sketchNote}`
                 )
             }
         };
@@ -364,36 +917,18 @@ export class SelectOptionTool implements vscode.LanguageModelTool<{
 }
 
 /**
- * Tool for asking user to input custom text
+ * Tool for asking user to input custom text, checked against the AI's
+ * constraints as they type so only valid answers are returned
  */
-export class RequestTextInputTool implements vscode.LanguageModelTool<{ 
-    title: string; 
-    prompt?: string;
-    placeholder?: string;
-    defaultValue?: string;
-    password?: boolean;
-}> {
+export class RequestTextInputTool implements vscode.LanguageModelTool<TextInputOptions> {
     
     async invoke(
-        options: vscode.LanguageModelToolInvocationOptions<{ 
-            title: string; 
-            prompt?: string;
-            placeholder?: string;
-            defaultValue?: string;
-            password?: boolean;
-        }>,
-        _token: vscode.CancellationToken
+        options: vscode.LanguageModelToolInvocationOptions<TextInputOptions>,
+        token: vscode.CancellationToken
     ): Promise<vscode.LanguageModelToolResult> {
-        const { title, prompt, placeholder, defaultValue, password } = options.input;
-
         try {
-            const result = await vscode.window.showInputBox({
-                title: title,
-                prompt: prompt || title,
-                placeHolder: placeholder,
-                value: defaultValue,
-                password: password || false
-            });
+            checkTextConstraints(options.input);
+            const result = await askForText(options.input, token);
 
             if (result === undefined) {
                 return new vscode.LanguageModelToolResult([
@@ -422,13 +957,7 @@ export class RequestTextInputTool implements vscode.LanguageModelTool<{
     }
 
     async prepareInvocation(
-        options: vscode.LanguageModelToolInvocationOptions<{ 
-            title: string; 
-            prompt?: string;
-            placeholder?: string;
-            defaultValue?: string;
-            password?: boolean;
-        }>,
+        options: vscode.LanguageModelToolInvocationOptions<TextInputOptions>,
         _token: vscode.CancellationToken
     ): Promise<vscode.PreparedToolInvocation> {
         return {
@@ -608,6 +1137,57 @@ export class ConfirmActionTool implements vscode.LanguageModelTool<{
     }
 }
 
+/**
+ * Tool for asking several questions at once: renders a JSON-Schema-like form
+ * definition in a webview and returns the typed values. Invalid values are
+ * reported to the user in the form, not to the AI.
+ */
+export class RequestFormTool implements vscode.LanguageModelTool<FormDefinition> {
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<FormDefinition>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        let fields: FormField[];
+        try {
+            fields = getFormFields(options.input);
+        } catch (error) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(JSON.stringify({
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Invalid form definition'
+                }))
+            ]);
+        }
+
+        const result = await showFormPanel(options.input, fields, token);
+        return new vscode.LanguageModelToolResult([
+            new vscode.LanguageModelTextPart(JSON.stringify(result.submitted
+                ? { success: true, values: result.values }
+                : { success: false, cancelled: true, error: result.reason === 'closed' ? 'User closed the form' : 'User cancelled the form' }))
+        ]);
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationOptions<FormDefinition>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.PreparedToolInvocation> {
+        const properties = options.input.properties ?? {};
+        const names = Object.entries(properties).map(([name, property]) => property?.title || name);
+        return {
+            invocationMessage: `Asking user to fill in: ${options.input.title}`,
+            confirmationMessages: {
+                title: 'Form Required',
+                message: new vscode.MarkdownString(
+                    `The AI assistant needs you to fill in a form.\n\n` +
+                    `**${options.input.title}**\n\n` +
+                    `**Fields:** ${names.slice(0, 8).join(', ')}${names.length > 8 ? '...' : ''}`
+                )
+            }
+        };
+    }
+}
+
 /**
  * Tool for getting information about the Kazo Design extension capabilities
  */
@@ -627,18 +1207,39 @@ export class GetCapabilitiesTool implements vscode.LanguageModelTool<Record<stri
                 'Draw lines for connections, separators',
                 'Add text labels to explain parts of the sketch',
                 'Export as SVG and JSON',
+                'Export as PNG, PDF and a self-contained HTML preview',
                 'Grid overlay for alignment',
                 'Drag and drop positioning'
             ],
-            outputFormats: ['SVG', 'JSON', 'Markdown'],
+            outputFormats: ['SVG', 'JSON', 'Markdown', 'PNG', 'PDF', 'HTML', 'Excalidraw', 'draw.io'],
             userInteractionTools: [
                 {
                     name: 'kazo_request_sketch',
                     description: 'Ask user to create a visual sketch/mockup'
                 },
+                {
+                    name: 'kazo_create_design',
+                    description: 'Propose a design drawn by the AI for the user to adjust and confirm'
+                },
+                {
+                    name: 'kazo_edit_design',
+                    description: 'Ask user to revise a saved design, returning the new design and a diff'
+                },
+                {
+                    name: 'kazo_choose_design',
+                    description: 'Show several proposed designs side by side for user to choose one, optionally editing it'
+                },
+                {
+                    name: 'kazo_annotate_image',
+                    description: 'Ask user to annotate an image (e.g. a screenshot), returning the composite and annotation positions'
+                },
+                {
+                    name: 'kazo_generate_code',
+                    description: 'Generate HTML, React or Blazor code from a design into the workspace'
+                },
                 {
                     name: 'kazo_select_option',
-                    description: 'Present options for user to choose from'
+                    description: 'Present options (with descriptions, icons and groups) for user to choose from, returning their ids'
                 },
                 {
                     name: 'kazo_request_text',
@@ -651,6 +1252,10 @@ export class GetCapabilitiesTool implements vscode.LanguageModelTool<Record<stri
                 {
                     name: 'kazo_confirm_action',
                     description: 'Ask user to confirm an action (Yes/No)'
+                },
+                {
+                    name: 'kazo_request_form',
+                    description: 'Ask user to fill in a form of several typed fields at once'
                 }
             ]
         };
@@ -671,47 +1276,131 @@ export class GetCapabilitiesTool implements vscode.LanguageModelTool<Record<stri
 }
 
 /**
- * Register all MCP tools with VS Code
+ * Tells the user about a new sketch request. `Skip` declines it; dismissing the
+ * notification leaves it pending, reachable from the status bar.
+ */
+function announceSketchRequest(requestId: string, message: string, openLabel: string, openEditor: () => void): void {
+    void vscode.window.showInformationMessage(message, openLabel, 'Skip').then(choice => {
+        const manager = SketchRequestManager.getInstance();
+        if (!manager.hasPendingRequest(requestId)) {
+            return;
+        }
+        if (choice === openLabel) {
+            openEditor();
+        } else if (choice === 'Skip') {
+            manager.cancelSketch(requestId, 'declined');
+        }
+    });
+}
+
+/**
+ * Waits for a sketch request to complete, cancelling it if the tool invocation is cancelled
+ */
+async function waitForSketch(requestId: string, sketchPromise: Promise<SketchResult>, token: vscode.CancellationToken): Promise<SketchResult> {
+    // The event does not fire for tokens cancelled before the call
+    if (token.isCancellationRequested) {
+        SketchRequestManager.getInstance().cancelSketch(requestId);
+        return sketchPromise;
+    }
+
+    let subscription: vscode.Disposable | undefined;
+    const cancellationPromise = new Promise<SketchResult>((_, reject) => {
+        subscription = token.onCancellationRequested(() => {
+            SketchRequestManager.getInstance().cancelSketch(requestId);
+            reject(new Error('Request was cancelled'));
+        });
+    });
+    try {
+        return await Promise.race([sketchPromise, cancellationPromise]);
+    } finally {
+        subscription?.dispose();
+    }
+}
+
+/**
+ * Adds the layout outline to a sketch result so the model gets the structure,
+ * not just the raw element list
+ */
+function withLayoutOutline(result: SketchResult): SketchResult {
+    if (!result.json || result.layout) {
+        return result;
+    }
+    try {
+        return { ...result, layout: outlineDesign(parseDesignDocument(result.json)) };
+    } catch {
+        return result;
+    }
+}
+
+/**
+ * Builds the tool result for a finished sketch: JSON text with a compact summary of
+ * the design, plus the rendered PNG as an image part for vision-capable models.
+ * The SVG markup is left out when the image is present. `wrap` shapes the JSON payload.
+ */
+function createSketchToolResult(
+    result: SketchResult,
+    wrap: (sketch: object) => object = sketch => sketch
+): vscode.LanguageModelToolResult {
+    const { png, svg, ...rest } = result;
+
+    let summary: string | undefined;
+    if (result.json) {
+        try {
+            summary = summarizeDesign(parseDesignDocument(result.json));
+        } catch {
+            // Leave the summary out rather than failing the tool call
+        }
+    }
+
+    const parts: (vscode.LanguageModelTextPart | vscode.LanguageModelDataPart)[] = [
+        new vscode.LanguageModelTextPart(JSON.stringify(wrap({ ...rest, summary, svg: png ? undefined : svg })))
+    ];
+    if (png) {
+        parts.push(vscode.LanguageModelDataPart.image(Buffer.from(png, 'base64'), 'image/png'));
+    }
+    return new vscode.LanguageModelToolResult(parts);
+}
+
+/**
+ * Register all MCP tools with VS Code.
+ * Returns the tool instances keyed by name so other transports (the MCP bridge) can reuse them.
  */
 export function registerMcpTools(
     context: vscode.ExtensionContext,
-    openEditorCommand: () => void
-): void {
-    // Register the request sketch tool
-    const requestSketchTool = new RequestSketchTool(openEditorCommand);
-    context.subscriptions.push(
-        vscode.lm.registerTool('kazo_request_sketch', requestSketchTool)
-    );
-
-    // Register the select option tool (with sketch support)
-    const selectOptionTool = new SelectOptionTool(openEditorCommand);
-    context.subscriptions.push(
-        vscode.lm.registerTool('kazo_select_option', selectOptionTool)
-    );
-
-    // Register the text input tool
-    const requestTextTool = new RequestTextInputTool();
-    context.subscriptions.push(
-        vscode.lm.registerTool('kazo_request_text', requestTextTool)
-    );
-
-    // Register the file selection tool
-    const selectFileTool = new SelectFileTool();
-    context.subscriptions.push(
-        vscode.lm.registerTool('kazo_select_file', selectFileTool)
-    );
-
-    // Register the confirmation tool
-    const confirmActionTool = new ConfirmActionTool();
-    context.subscriptions.push(
-        vscode.lm.registerTool('kazo_confirm_action', confirmActionTool)
-    );
-
-    // Register the capabilities tool
-    const capabilitiesTool = new GetCapabilitiesTool();
-    context.subscriptions.push(
-        vscode.lm.registerTool('kazo_get_capabilities', capabilitiesTool)
-    );
+    openEditorCommand: OpenEditorCommand,
+    codeGenerators: CodeGeneratorRegistry
+): KazoToolRegistry {
+    const tools: KazoToolRegistry = new Map<string, vscode.LanguageModelTool<object>>([
+        // Request sketch tool
+        ['kazo_request_sketch', new RequestSketchTool(openEditorCommand)],
+        // Create design tool (AI-authored layout the user can adjust)
+        ['kazo_create_design', new CreateDesignTool(openEditorCommand)],
+        // Edit design tool (revise a saved design and report the diff)
+        ['kazo_edit_design', new EditDesignTool(openEditorCommand)],
+        // Design choice tool (gallery of proposed designs)
+        ['kazo_choose_design', new ChooseDesignTool(openEditorCommand)],
+        // Annotate image tool (shapes over a locked screenshot)
+        ['kazo_annotate_image', new AnnotateImageTool(openEditorCommand)],
+        // Code generation tool (HTML, React, Blazor or registered targets)
+        ['kazo_generate_code', new GenerateCodeTool(codeGenerators)],
+        // Select option tool (with sketch support)
+        ['kazo_select_option', new SelectOptionTool(openEditorCommand)],
+        // Text input tool
+        ['kazo_request_text', new RequestTextInputTool()],
+        // File selection tool
+        ['kazo_select_file', new SelectFileTool()],
+        // Confirmation tool
+        ['kazo_confirm_action', new ConfirmActionTool()],
+        // Multi-field form tool
+        ['kazo_request_form', new RequestFormTool()],
+        // Capabilities tool
+        ['kazo_get_capabilities', new GetCapabilitiesTool()]
+    ]);
+
+    for (const [name, tool] of tools) {
+        context.subscriptions.push(vscode.lm.registerTool(name, tool));
+    }
 
     console.log('Kazo Design MCP tools registered');
+    return tools;
 }
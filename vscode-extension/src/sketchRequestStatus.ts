@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { SketchRequestInfo, SketchRequestManager } from './mcpTools';
+
+/**
+ * Status bar entry for pending sketch requests: shows how many are waiting,
+ * counts down to the next timeout and opens `kazoDesign.showPendingRequests`.
+ * A reminder is shown once per request when `kazoDesign.sketchRequest.reminderMinutes` remain.
+ */
+export class SketchRequestStatus implements vscode.Disposable {
+    private readonly statusBarItem: vscode.StatusBarItem;
+    private readonly subscription: vscode.Disposable;
+    /** Ticks every second while a pending request has a timeout */
+    private countdown: NodeJS.Timeout | undefined;
+    /** Requests the user has already been reminded about */
+    private readonly reminded = new Set<string>();
+
+    constructor(
+        private readonly manager: SketchRequestManager,
+        private readonly openRequest: (requestId: string) => void
+    ) {
+        this.statusBarItem = vscode.window.createStatusBarItem('kazoDesign.sketchRequests', vscode.StatusBarAlignment.Left, 100);
+        this.statusBarItem.name = 'Kazo Design Sketch Requests';
+        this.statusBarItem.command = 'kazoDesign.showPendingRequests';
+        this.subscription = manager.onDidChangeRequests(() => this.update());
+        this.update();
+    }
+
+    public dispose(): void {
+        clearInterval(this.countdown);
+        this.subscription.dispose();
+        this.statusBarItem.dispose();
+    }
+
+    private update(): void {
+        const requests = this.manager.getPendingRequests();
+        for (const id of this.reminded) {
+            if (!requests.some(request => request.id === id)) {
+                this.reminded.delete(id);
+            }
+        }
+
+        if (requests.length === 0) {
+            this.stopCountdown();
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const now = Date.now();
+        const next = requests
+            .filter(request => request.expiresAt)
+            .sort((a, b) => (a.expiresAt?.getTime() ?? 0) - (b.expiresAt?.getTime() ?? 0))[0];
+        const remaining = next?.expiresAt ? next.expiresAt.getTime() - now : undefined;
+        const reminderMs = getReminderMinutes() * 60 * 1000;
+
+        const label = requests.length === 1 ? 'Sketch requested' : `${requests.length} sketch requests`;
+        this.statusBarItem.text = `$(edit) ${label}${remaining !== undefined ? ` $(clock) ${formatRemaining(remaining)}` : ''}`;
+        this.statusBarItem.tooltip = [
+            ...requests.map(request => `${request.title}${request.expiresAt ? ` (times out in ${formatRemaining(request.expiresAt.getTime() - now)})` : ''}`),
+            'Click to open, answer or decline a request'
+        ].join('\n');
+        this.statusBarItem.backgroundColor = remaining !== undefined && remaining <= reminderMs
+            ? new vscode.ThemeColor('statusBarItem.warningBackground')
+            : undefined;
+        this.statusBarItem.show();
+
+        if (next) {
+            this.countdown ??= setInterval(() => this.update(), 1000);
+        } else {
+            this.stopCountdown();
+        }
+
+        for (const request of requests) {
+            if (request.expiresAt && request.expiresAt.getTime() - now <= reminderMs && !this.reminded.has(request.id)) {
+                this.reminded.add(request.id);
+                void this.remind(request);
+            }
+        }
+    }
+
+    private stopCountdown(): void {
+        clearInterval(this.countdown);
+        this.countdown = undefined;
+    }
+
+    /**
+     * Warns that a request is about to time out and offers to open or cancel it
+     */
+    private async remind(request: SketchRequestInfo): Promise<void> {
+        const remaining = request.expiresAt ? request.expiresAt.getTime() - Date.now() : 0;
+        const choice = await vscode.window.showWarningMessage(
+            `The AI assistant's sketch request "${request.title}" times out in ${formatRemaining(remaining)}.`,
+            'Open Editor',
+            'Cancel Request'
+        );
+        if (!this.manager.hasPendingRequest(request.id)) {
+            return;
+        }
+        if (choice === 'Open Editor') {
+            this.openRequest(request.id);
+        } else if (choice === 'Cancel Request') {
+            this.manager.cancelSketch(request.id, 'cancelled');
+        }
+    }
+}
+
+/**
+ * `kazoDesign.sketchRequest.reminderMinutes`: how long before a timeout the reminder is shown
+ */
+function getReminderMinutes(): number {
+    return Math.max(0, vscode.workspace.getConfiguration('kazoDesign').get<number>('sketchRequest.reminderMinutes', 5));
+}
+
+/**
+ * Formats a duration as a countdown, e.g. `4:05` or `1:02:03`
+ */
+function formatRemaining(milliseconds: number): string {
+    const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { createCodeGeneratorRegistry } from '../codegen/codeGenerator';
+import { parseDesignDocument } from '../designSchema';
+import { readFixture } from './fixtures';
+
+describe('code generators', () => {
+    const document = parseDesignDocument(readFixture('codegen', 'login-page.kazo.json'));
+
+    for (const generator of createCodeGeneratorRegistry().getAll()) {
+        it(`${generator.id} generates the expected files`, () => {
+            const files = generator.generate(document);
+            assert.ok(files.length > 0);
+            for (const file of files) {
+                assert.strictEqual(file.content, readFixture('codegen', 'expected', generator.id, file.path), file.path);
+            }
+        });
+    }
+
+    it('generates files for html, react and blazor', () => {
+        const generated = createCodeGeneratorRegistry().getAll().map(generator => [generator.id, generator.generate(document).map(file => file.path)]);
+        assert.deepStrictEqual(generated, [
+            ['html', ['index.html', 'styles.css']],
+            ['react', ['LoginPage.tsx', 'LoginPage.css']],
+            ['blazor', ['LoginPage.razor', 'LoginPage.razor.css']]
+        ]);
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DesignDocument, DesignElement, createDesignDocument } from '../designDocument';
+import { diffDesigns } from '../designDiff';
+
+const before = createDesignDocument({
+    title: 'Login',
+    elements: [
+        { type: 'rectangle', id: 'header', name: 'Header', x: 0, y: 0, width: 800, height: 60, fill: '#333333' },
+        { type: 'text', id: 'title', x: 20, y: 40, content: 'Sign in' },
+        { type: 'rectangle', id: 'submit', name: 'Submit', x: 300, y: 400, width: 200, height: 40 },
+        { type: 'line', id: 'divider', x: 20, y: 80, x2: 780, y2: 80 }
+    ]
+});
+
+/**
+ * Returns a copy of the design with its elements changed
+ */
+function edit(document: DesignDocument, change: (elements: DesignElement[]) => DesignElement[]): DesignDocument {
+    const copy = JSON.parse(JSON.stringify(document)) as DesignDocument;
+    return { ...copy, elements: change(copy.elements) };
+}
+
+describe('diffDesigns', () => {
+    it('reports no changes for the same design', () => {
+        assert.deepStrictEqual(diffDesigns(before, edit(before, elements => elements)), {
+            added: [], removed: [], moved: [], modified: [], unchanged: 4
+        });
+    });
+
+    it('ignores design-level changes and reordered elements', () => {
+        const after = { ...edit(before, elements => [...elements].reverse()), title: 'Sign in', modifiedAt: 'later' };
+        assert.deepStrictEqual(diffDesigns(before, after), { added: [], removed: [], moved: [], modified: [], unchanged: 4 });
+    });
+
+    it('reports added and removed elements', () => {
+        const [added] = createDesignDocument({ elements: [{ type: 'circle', id: 'avatar', name: 'Avatar', x: 400, y: 200, radius: 30 }] }).elements;
+        const after = edit(before, elements => [...elements.filter(element => element.id !== 'title'), added]);
+
+        assert.deepStrictEqual(diffDesigns(before, after), {
+            added: [{ id: 'avatar', type: 'circle', name: 'Avatar', x: 400, y: 200 }],
+            removed: [{ id: 'title', type: 'text', name: null, x: 20, y: 40 }],
+            moved: [],
+            modified: [],
+            unchanged: 3
+        });
+    });
+
+    it('reports moved elements with their previous position', () => {
+        const after = edit(before, elements => elements.map(element => element.id === 'submit' ? { ...element, x: 320, y: 420 } : element));
+
+        assert.deepStrictEqual(diffDesigns(before, after), {
+            added: [],
+            removed: [],
+            moved: [{ id: 'submit', type: 'rectangle', name: 'Submit', x: 320, y: 420, from: { x: 300, y: 400 } }],
+            modified: [],
+            unchanged: 3
+        });
+    });
+
+    it('reports restyled and resized elements with the changed properties', () => {
+        const after = edit(before, elements => elements.map(element => element.id === 'header'
+            ? { ...element, fill: '#0066cc', height: 80, description: 'Brand bar' }
+            : element));
+
+        assert.deepStrictEqual(diffDesigns(before, after), {
+            added: [],
+            removed: [],
+            moved: [],
+            modified: [{ id: 'header', type: 'rectangle', name: 'Header', x: 0, y: 0, changes: ['description', 'height', 'fill'] }],
+            unchanged: 3
+        });
+    });
+
+    it('treats missing and null properties alike', () => {
+        // The text's name is null: leaving it out is no change
+        const after = edit(before, elements => elements.map(element => {
+            const { name: _name, ...rest } = element;
+            return element.id === 'title' ? rest as DesignElement : element;
+        }));
+        assert.strictEqual(before.elements[1].name, null);
+        assert.deepStrictEqual(diffDesigns(before, after).modified, []);
+    });
+
+    it('reports elements both moved and modified, e.g. lines dragged by one end', () => {
+        const after = edit(before, elements => elements.map(element => element.$type === 'line' ? { ...element, x: 40, y2: 120 } : element));
+
+        const diff = diffDesigns(before, after);
+        assert.deepStrictEqual(diff.moved, [{ id: 'divider', type: 'line', name: null, x: 40, y: 80, from: { x: 20, y: 80 } }]);
+        assert.deepStrictEqual(diff.modified, [{ id: 'divider', type: 'line', name: null, x: 40, y: 80, changes: ['y2'] }]);
+        assert.strictEqual(diff.unchanged, 3);
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DesignDocument, createDesignDocument } from '../designDocument';
+import { LayoutNode, buildLayoutTree, getArrangement, getBounds } from '../designLayout';
+
+function design(elements: Record<string, unknown>[]): DesignDocument {
+    return createDesignDocument({ title: 'Layout', elements });
+}
+
+/**
+ * Element ids of a layout tree, with children and view contents nested
+ */
+function ids(nodes: LayoutNode[]): unknown[] {
+    return nodes.map(node => {
+        const nested = [...ids(node.children), ...(node.viewContents ? [{ view: ids(node.viewContents) }] : [])];
+        return nested.length > 0 ? { [node.element.id]: nested } : node.element.id;
+    });
+}
+
+/**
+ * 50×30 boxes at the given top-left corners, laid out
+ */
+function boxes(...corners: [number, number][]): LayoutNode[] {
+    return buildLayoutTree(design(corners.map(([x, y], index) => ({ type: 'rectangle', id: `box${index}`, x, y, width: 50, height: 30 }))));
+}
+
+describe('getBounds', () => {
+    it('measures every element type', () => {
+        const [rectangle, circle, line, text] = design([
+            { type: 'rectangle', x: 10, y: 20, width: 30, height: 40 },
+            { type: 'circle', x: 100, y: 100, radius: 25 },
+            { type: 'line', x: 200, y: 50, x2: 120, y2: 90 },
+            { type: 'text', x: 0, y: 100, content: 'Hello', fontSize: 20 }
+        ]).elements;
+
+        assert.deepStrictEqual(getBounds(rectangle), { x: 10, y: 20, width: 30, height: 40 });
+        assert.deepStrictEqual(getBounds(circle), { x: 75, y: 75, width: 50, height: 50 });
+        assert.deepStrictEqual(getBounds(line), { x: 120, y: 50, width: 80, height: 40 });
+        // Text sits on its baseline, about 0.55em per character
+        const { width, ...position } = getBounds(text);
+        assert.deepStrictEqual(position, { x: 0, y: 80, height: 24 });
+        assert.ok(Math.abs(width - 55) < 1e-9);
+    });
+});
+
+describe('getArrangement', () => {
+    it('recognizes rows, columns, grids and uneven rows', () => {
+        assert.strictEqual(getArrangement(boxes([0, 0], [100, 5], [200, 0]))?.kind, 'row');
+        assert.strictEqual(getArrangement(boxes([0, 0], [0, 100], [10, 200]))?.kind, 'column');
+        assert.strictEqual(getArrangement(boxes([0, 0], [100, 0], [0, 100], [100, 100]))?.kind, 'grid');
+        assert.strictEqual(getArrangement(boxes([0, 0], [100, 0], [0, 100]))?.kind, 'rows');
+    });
+
+    it('groups rows top to bottom and left to right', () => {
+        const arrangement = getArrangement(boxes([100, 100], [0, 0], [0, 100], [100, 0]));
+        assert.deepStrictEqual(arrangement?.rows.map(row => row.map(node => node.element.id)), [['box1', 'box3'], ['box2', 'box0']]);
+    });
+
+    it('needs at least two nodes', () => {
+        assert.strictEqual(getArrangement(boxes([0, 0])), undefined);
+        assert.strictEqual(getArrangement([]), undefined);
+    });
+});
+
+describe('buildLayoutTree', () => {
+    it('nests elements under the smallest shape containing them', () => {
+        const tree = buildLayoutTree(design([
+            { type: 'text', id: 'label', x: 30, y: 50, content: 'Hi' },
+            { type: 'rectangle', id: 'outer', x: 0, y: 0, width: 400, height: 300 },
+            { type: 'rectangle', id: 'inner', x: 20, y: 20, width: 100, height: 100 },
+            // Lines and text never contain other elements
+            { type: 'line', id: 'rule', x: 200, y: 150, x2: 380, y2: 150 },
+            { type: 'rectangle', id: 'outside', x: 500, y: 0, width: 100, height: 100 }
+        ]));
+        assert.deepStrictEqual(ids(tree), [{ outer: [{ inner: ['label'] }, 'rule'] }, 'outside']);
+    });
+
+    it('attaches the elements of a View to it, and keeps unknown parents on the canvas', () => {
+        const tree = buildLayoutTree(design([
+            { type: 'rectangle', id: 'view', name: 'Settings', meaning: 'View', x: 0, y: 0, width: 200, height: 200 },
+            { type: 'rectangle', id: 'toggle', parent: 'Settings', x: 10, y: 10, width: 40, height: 20 },
+            { type: 'rectangle', id: 'orphan', parent: 'Missing', x: 300, y: 0, width: 40, height: 20 }
+        ]));
+        assert.deepStrictEqual(ids(tree), [{ view: [{ view: ['toggle'] }] }, 'orphan']);
+    });
+
+    it('does not loop on views that nest themselves', () => {
+        const tree = buildLayoutTree(design([
+            { type: 'rectangle', id: 'a', name: 'A', meaning: 'View', x: 0, y: 0, width: 200, height: 200 },
+            { type: 'rectangle', id: 'b', name: 'B', meaning: 'View', parent: 'A', x: 0, y: 0, width: 100, height: 100 },
+            { type: 'rectangle', id: 'a2', name: 'A', meaning: 'View', parent: 'B', x: 0, y: 0, width: 50, height: 50 }
+        ]));
+        assert.deepStrictEqual(ids(tree), [{ a: [{ view: [{ b: [{ view: ['a2'] }] }] }] }]);
+    });
+});
@@ -0,0 +1,170 @@
+import { shownMessages, untitledDocuments } from './vscodeFake';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { beforeEach, describe, it } from 'node:test';
+import { DesignContent, DesignPersistence, reportDesignSaveResult } from '../designPersistence';
+
+/**
+ * In-memory file system that records every operation and can be told to fail writes
+ */
+class MemoryFileSystem implements vscode.FileSystem {
+    public readonly files = new Map<string, Uint8Array>();
+    public readonly folders = new Set<string>(['/']);
+    public readonly operations: string[] = [];
+    /** Paths whose writes or renames fail */
+    public readonly failing = new Set<string>();
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const file = this.files.get(uri.path);
+        if (!file && !this.folders.has(uri.path)) {
+            throw new Error(`${uri.path} not found`);
+        }
+        return { type: file ? vscode.FileType.File : vscode.FileType.Directory, ctime: 0, mtime: 0, size: file?.length ?? 0 };
+    }
+
+    public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        return [...this.files.keys()]
+            .filter(file => file.startsWith(`${uri.path}/`))
+            .map(file => [file.slice(uri.path.length + 1), vscode.FileType.File]);
+    }
+
+    public async createDirectory(uri: vscode.Uri): Promise<void> {
+        this.operations.push(`mkdir ${uri.path}`);
+        this.folders.add(uri.path);
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const file = this.files.get(uri.path);
+        if (!file) {
+            throw new Error(`${uri.path} not found`);
+        }
+        return file;
+    }
+
+    public async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        this.operations.push(`write ${uri.path}`);
+        this.files.set(uri.path, content);
+    }
+
+    public async delete(uri: vscode.Uri): Promise<void> {
+        this.operations.push(`delete ${uri.path}`);
+        this.files.delete(uri.path);
+    }
+
+    public async rename(source: vscode.Uri, target: vscode.Uri, options?: { overwrite?: boolean }): Promise<void> {
+        this.operations.push(`rename ${source.path} ${target.path}`);
+        if (this.failing.has(target.path)) {
+            throw new Error('disk full');
+        }
+        if (this.files.has(target.path) && !options?.overwrite) {
+            throw new Error(`${target.path} exists`);
+        }
+        const content = await this.readFile(source);
+        this.files.delete(source.path);
+        this.files.set(target.path, content);
+    }
+
+    public async copy(source: vscode.Uri, target: vscode.Uri): Promise<void> {
+        this.files.set(target.path, await this.readFile(source));
+    }
+
+    public isWritableFileSystem(): boolean {
+        return true;
+    }
+
+    public text(path: string): string | undefined {
+        const file = this.files.get(path);
+        return file && new TextDecoder().decode(file);
+    }
+}
+
+const design: DesignContent = {
+    svg: '<svg xmlns="http://www.w3.org/2000/svg"></svg>',
+    json: '{"title":"Login Page","elements":[]}',
+    title: 'Login Page',
+    prompt: 'Draw the login page'
+};
+
+describe('DesignPersistence', () => {
+    let fileSystem: MemoryFileSystem;
+    let persistence: DesignPersistence;
+
+    beforeEach(() => {
+        fileSystem = new MemoryFileSystem();
+        persistence = new DesignPersistence(fileSystem);
+        shownMessages.length = 0;
+        untitledDocuments.clear();
+    });
+
+    it('writes through a temporary sibling renamed into place', async () => {
+        await persistence.writeFile(vscode.Uri.parse('memfs:/designs/login.svg'), '<svg/>');
+
+        assert.strictEqual(fileSystem.operations.length, 3);
+        const [mkdir, write, rename] = fileSystem.operations;
+        assert.strictEqual(mkdir, 'mkdir /designs');
+        assert.match(write, /^write \/designs\/\.login\.svg\.[0-9a-f]{8}\.tmp$/);
+        assert.strictEqual(rename, `rename ${write.slice('write '.length)} /designs/login.svg`);
+        assert.deepStrictEqual([...fileSystem.files.keys()], ['/designs/login.svg']);
+        assert.strictEqual(fileSystem.text('/designs/login.svg'), '<svg/>');
+    });
+
+    it('replaces existing files and removes the temporary file when the rename fails', async () => {
+        fileSystem.files.set('/designs/login.svg', new TextEncoder().encode('old'));
+        await persistence.writeFile(vscode.Uri.parse('memfs:/designs/login.svg'), 'new');
+        assert.strictEqual(fileSystem.text('/designs/login.svg'), 'new');
+
+        fileSystem.failing.add('/designs/login.svg');
+        await assert.rejects(persistence.writeFile(vscode.Uri.parse('memfs:/designs/login.svg'), 'newer'), /disk full/);
+        assert.deepStrictEqual([...fileSystem.files.keys()], ['/designs/login.svg']);
+        assert.strictEqual(fileSystem.text('/designs/login.svg'), 'new');
+    });
+
+    it('saves a design as an SVG and Markdown pair', async () => {
+        const result = await persistence.saveDesign(vscode.Uri.parse('memfs:/designs/login.svg'), design);
+
+        assert.deepStrictEqual(result.written.map(uri => uri.path), ['/designs/login.svg', '/designs/login.md']);
+        assert.deepStrictEqual(result.failed, []);
+        assert.strictEqual(fileSystem.text('/designs/login.svg'), design.svg);
+        const markdown = fileSystem.text('/designs/login.md') ?? '';
+        assert.match(markdown, /Login Page/);
+        assert.match(markdown, /login\.svg/);
+        assert.ok(markdown.includes(design.json));
+    });
+
+    it('fills untitled documents instead of writing files', async () => {
+        const result = await persistence.saveDesign(vscode.Uri.parse('untitled:/login'), design);
+
+        assert.deepStrictEqual(result.failed, []);
+        assert.deepStrictEqual(fileSystem.operations, []);
+        assert.strictEqual(untitledDocuments.get('untitled:/login.svg'), design.svg);
+        assert.ok(untitledDocuments.get('untitled:/login.md')?.includes(design.json));
+    });
+
+    it('reports a partial save when the Markdown fails', async () => {
+        fileSystem.failing.add('/designs/login.md');
+        const result = await persistence.saveDesign(vscode.Uri.parse('memfs:/designs/login'), design);
+
+        assert.deepStrictEqual(result.written.map(uri => uri.path), ['/designs/login.svg']);
+        assert.deepStrictEqual(result.failed.map(failure => [failure.uri.path, failure.error]), [['/designs/login.md', 'disk full']]);
+        assert.ok(!fileSystem.files.has('/designs/login.md'));
+
+        assert.strictEqual(reportDesignSaveResult(result, 'Sketch'), false);
+        assert.deepStrictEqual(shownMessages, [
+            { severity: 'warning', message: 'Sketch partially saved: login.svg written, but login.md: disk full' }
+        ]);
+    });
+
+    it('reports complete saves and complete failures', async () => {
+        const saved = await persistence.saveDesign(vscode.Uri.parse('memfs:/designs/login'), design);
+        assert.strictEqual(reportDesignSaveResult(saved, 'Sketch'), true);
+
+        fileSystem.failing.add('/designs/login.svg').add('/designs/login.md');
+        const failed = await persistence.saveDesign(vscode.Uri.parse('memfs:/designs/login'), design);
+        assert.strictEqual(reportDesignSaveResult(failed, 'Sketch'), false);
+
+        assert.deepStrictEqual(shownMessages, [
+            { severity: 'information', message: 'Sketch saved to /designs/login' },
+            { severity: 'error', message: 'Failed to save sketch: login.svg: disk full; login.md: disk full' }
+        ]);
+    });
+});
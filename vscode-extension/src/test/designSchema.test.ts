@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CURRENT_SCHEMA_VERSION } from '../designDocument';
+import { checkDesignJson, migrateDesign, parseDesignDocument, upgradeDesignJson, validateDesign } from '../designSchema';
+import { readFixture } from './fixtures';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe('design schema', () => {
+    it('upgrades version 0 designs with PascalCase keys and numeric enums', () => {
+        const { document, fromVersion } = migrateDesign(JSON.parse(readFixture('schema', 'v0.kazo.json')));
+        assert.strictEqual(fromVersion, 0);
+        assert.strictEqual(Object.keys(document)[0], 'schemaVersion');
+
+        // Elements without an id get a generated one
+        const elements = document.elements as Record<string, unknown>[];
+        assert.match(String(elements[3].id), UUID_PATTERN);
+        elements[3].id = 'avatar';
+
+        assert.deepStrictEqual(document, JSON.parse(readFixture('schema', 'v1.kazo.json')));
+        assert.deepStrictEqual(validateDesign(document), []);
+    });
+
+    it('serializes upgraded designs for the editor', () => {
+        const result = checkDesignJson(readFixture('schema', 'v0.kazo.json'));
+        assert.strictEqual(result.migratedFrom, 0);
+        assert.deepStrictEqual(result.errors, []);
+        assert.deepStrictEqual(JSON.parse(result.json), result.document);
+        assert.strictEqual(parseDesignDocument(readFixture('schema', 'v0.kazo.json')).title, 'Archived Login');
+    });
+
+    it('passes current designs through unchanged', () => {
+        const json = readFixture('schema', 'v1.kazo.json');
+        const result = checkDesignJson(json);
+        assert.strictEqual(result.migratedFrom, undefined);
+        assert.deepStrictEqual(result.errors, []);
+        assert.strictEqual(result.json, json);
+        assert.strictEqual(upgradeDesignJson(json), json);
+        assert.deepStrictEqual(parseDesignDocument(json), JSON.parse(json));
+    });
+
+    it('rejects designs from a newer schema version', () => {
+        const json = JSON.stringify({ ...JSON.parse(readFixture('schema', 'v1.kazo.json')), schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+        const message = `Design uses schema version ${CURRENT_SCHEMA_VERSION + 1}, but this version of Kazo Design only supports up to ${CURRENT_SCHEMA_VERSION}. Please update the extension.`;
+        assert.throws(() => checkDesignJson(json), { message });
+        assert.throws(() => parseDesignDocument(json), { message });
+        // The editor reports the problem itself, so the JSON is left alone
+        assert.strictEqual(upgradeDesignJson(json), json);
+    });
+
+    it('rejects values that are not design objects', () => {
+        assert.throws(() => migrateDesign([]), { message: 'Design must be a JSON object' });
+        assert.throws(() => checkDesignJson('{"title": '), /^Error: Design is not valid JSON: /);
+        assert.deepStrictEqual(validateDesign(null), ['Design must be a JSON object']);
+        assert.deepStrictEqual(validateDesign({ title: 'No elements', backgroundColor: '#fff', canvasWidth: 1, canvasHeight: 1 }), [
+            'Design: "elements" must be an array'
+        ]);
+    });
+
+    it('reports every problem of malformed designs', () => {
+        const result = checkDesignJson(readFixture('schema', 'invalid.kazo.json'));
+        assert.deepStrictEqual(result.errors, [
+            'Design: "canvasWidth" must be a positive number',
+            'Design: "description" must be a string or null',
+            'Element 0: must be an object',
+            'Element 1: "$type" must be the first property',
+            'Element 2: unknown $type "hexagon"',
+            'Element 3: "x" must be a number',
+            'Element 3: "meaning" must be one of None, Control, NavBar, Toolbar, Body, Panel, Footer, View, ImagePlaceholder',
+            'Element 3: "radius" must be a non-negative number',
+            'Element 4: duplicate id "dot"',
+            'Element 4: "content" must be a string',
+            'Element 4: "textType" must be one of Paragraph, H1, H2, H3, H4, H5, Link',
+            'Element 5: "source" must be a string'
+        ]);
+        assert.throws(
+            () => parseDesignDocument(readFixture('schema', 'invalid.kazo.json')),
+            { message: `Invalid design: ${result.errors.slice(0, 5).join('; ')} (and 7 more)` }
+        );
+    });
+});
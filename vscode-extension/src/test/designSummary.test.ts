@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { createDesignDocument } from '../designDocument';
+import { outlineDesign, summarizeDesign } from '../designSummary';
+
+/**
+ * A dashboard with nested panels, a connector between two of them and a View drawn on its own canvas
+ */
+const dashboard = createDesignDocument({
+    title: 'Dashboard',
+    canvasWidth: 800,
+    canvasHeight: 600,
+    elements: [
+        { type: 'rectangle', id: 'nav', name: 'Nav', meaning: 'NavBar', x: 0, y: 0, width: 800, height: 60 },
+        { type: 'text', id: 'logo', x: 20, y: 40, content: 'Acme', textType: 'H3' },
+        { type: 'text', id: 'home', x: 600, y: 38, content: 'Home', textType: 'Link' },
+        { type: 'text', id: 'about', x: 680, y: 38, content: 'About', textType: 'Link' },
+        { type: 'rectangle', id: 'body', name: 'Body', meaning: 'Body', x: 0, y: 60, width: 800, height: 480 },
+        { type: 'rectangle', id: 'orders', name: 'Orders', meaning: 'Panel', x: 40, y: 100, width: 300, height: 200, description: 'Latest orders' },
+        { type: 'rectangle', id: 'ordersHeader', x: 50, y: 110, width: 280, height: 40 },
+        { type: 'text', id: 'ordersTitle', x: 60, y: 138, content: 'Orders' },
+        { type: 'rectangle', id: 'stock', name: 'Stock', meaning: 'Panel', x: 460, y: 100, width: 300, height: 200 },
+        { type: 'line', id: 'flow', name: 'Ships from', x: 340, y: 200, x2: 460, y2: 200 },
+        { type: 'circle', id: 'status', name: 'Status', meaning: 'Control', x: 400, y: 400, radius: 30 },
+        { type: 'rectangle', id: 'footer', name: 'Footer', meaning: 'Footer', x: 0, y: 540, width: 800, height: 60 },
+        { type: 'rectangle', id: 'details', name: 'Details', meaning: 'View', x: 460, y: 340, width: 300, height: 160 },
+        { type: 'text', id: 'detailsTitle', parent: 'Details', x: 20, y: 40, content: 'Order details', textType: 'H2' },
+        { type: 'rectangle', id: 'close', name: 'Close', meaning: 'Control', parent: 'Details', x: 20, y: 100, width: 80, height: 30 },
+        { type: 'rectangle', id: 'save', name: 'Save', meaning: 'Control', parent: 'Details', x: 120, y: 100, width: 80, height: 30 }
+    ]
+});
+
+describe('outlineDesign', () => {
+    it('nests groups by containment and views by parent, with connectors beside the panels they join', () => {
+        assert.strictEqual(outlineDesign(dashboard), [
+            'Canvas "Dashboard" 800×600',
+            '  [layout: column of 3]',
+            '  - NavBar rectangle "Nav" @ 0,0 800×60',
+            '    [layout: row of 3]',
+            '    - text: "Acme" (H3) @ 20,24 35×19',
+            '    - text: "Home" (Link) @ 600,22 35×19',
+            '    - text: "About" (Link) @ 680,22 44×19',
+            '  - Body rectangle "Body" @ 0,60 800×480',
+            '    [layout: 2 rows (3, 2 items)]',
+            '    - Panel rectangle "Orders" — Latest orders @ 40,100 300×200',
+            '      - rectangle @ 50,110 280×40',
+            '        - text: "Orders" @ 60,122 53×19',
+            '    - line "Ships from" @ 340,200 120×0',
+            '    - Panel rectangle "Stock" @ 460,100 300×200',
+            '    - Control circle "Status" @ 370,370 60×60',
+            '    - View rectangle "Details" @ 460,340 300×160',
+            '      (view contents)',
+            '      [layout: 2 rows (1, 2 items)]',
+            '      - text: "Order details" (H2) @ 20,24 114×19',
+            '      - Control rectangle "Close" @ 20,100 80×30',
+            '      - Control rectangle "Save" @ 120,100 80×30',
+            '  - Footer rectangle "Footer" @ 0,540 800×60'
+        ].join('\n'));
+    });
+
+    it('outlines an empty design as its canvas', () => {
+        assert.strictEqual(outlineDesign(createDesignDocument({ title: 'Empty' })), 'Canvas "Empty" 800×600');
+    });
+});
+
+describe('summarizeDesign', () => {
+    it('counts element types and lists named elements with their meaning', () => {
+        assert.strictEqual(
+            summarizeDesign(dashboard),
+            '"Dashboard" (800×600): 16 elements — 9 rectangles, 5 texts, 1 line, 1 circle. '
+            + 'Named: Nav (NavBar), Body (Body), Orders (Panel), Stock (Panel), Ships from, Status (Control), '
+            + 'Footer (Footer), Details (View), Close (Control), Save (Control).'
+        );
+    });
+
+    it('summarizes an empty design', () => {
+        assert.strictEqual(summarizeDesign(createDesignDocument({ title: 'Empty' })), '"Empty" (800×600): 0 elements.');
+    });
+
+    it('elides named elements after the first 20', () => {
+        const elements = Array.from({ length: 22 }, (_, index) => ({ type: 'circle', name: `Dot ${index + 1}`, x: index * 10, y: 0, radius: 4 }));
+        const summary = summarizeDesign(createDesignDocument({ title: 'Dots', elements }));
+        assert.match(summary, /^"Dots" \(800×600\): 22 elements — 22 circles\. Named: Dot 1, Dot 2, .*, Dot 20 and 2 more\.$/);
+    });
+});
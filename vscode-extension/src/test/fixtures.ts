@@ -0,0 +1,11 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Test fixtures stay in `src/test/fixtures`; tests run from `out/test`
+ */
+export const FIXTURES_FOLDER = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+export function readFixture(...segments: string[]): string {
+    return fs.readFileSync(path.join(FIXTURES_FOLDER, ...segments), 'utf8');
+}
@@ -0,0 +1,26 @@
+import './LoginPage.css';
+
+/**
+ * Generated by Kazo Design from "Login Page"
+ */
+export function LoginPage() {
+    return (
+        <div className="kazo-design">
+            <nav className="header">
+                <h3 className="logo">Kazo &amp; Co</h3>
+                <a className="help" href="https://example.com/help">Help</a>
+            </nav>
+            <main className="content">
+                <section className="login-form">
+                    <h2 className="title">Sign in</h2>
+                    <button className="email" type="button"></button>
+                    <button className="password" type="button"></button>
+                    <button className="sign-in" type="button"></button>
+                </section>
+            </main>
+            <footer className="footer">
+                <p className="copyright">© 2026 Kazo &lt;Design&gt;</p>
+            </footer>
+        </div>
+    );
+}
@@ -0,0 +1,57 @@
+import './vscodeFake';
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DesignDocument, createDesignDocument } from '../designDocument';
+import { parseDesignDocument } from '../designSchema';
+import { exportSvg } from '../exporters/svgExporter';
+import { AnnotationImage, createAnnotationDesign, removeBackgroundImage } from '../imageAnnotation';
+
+const image: AnnotationImage = {
+    fileName: 'screenshot.png',
+    dataUri: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+    width: 640,
+    height: 480
+};
+
+/**
+ * An annotation design with a circle and a picture the user placed over the screenshot
+ */
+function annotatedDesign(): DesignDocument {
+    const document = parseDesignDocument(createAnnotationDesign(image, undefined, 'Circle the broken button'));
+    const { elements } = createDesignDocument({
+        elements: [
+            { type: 'circle', x: 320, y: 200, radius: 40, stroke: '#ff0000' },
+            { type: 'image', x: 10, y: 10, width: 20, height: 20, source: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=' }
+        ]
+    });
+    return { ...document, elements };
+}
+
+describe('image annotation', () => {
+    it('keeps the screenshot as the locked background of the design', () => {
+        const document = annotatedDesign();
+        assert.strictEqual(document.backgroundImage, image.dataUri);
+        assert.strictEqual(document.canvasWidth, 640);
+        assert.strictEqual(document.canvasHeight, 480);
+        assert.strictEqual(document.title, 'Annotations of screenshot.png');
+    });
+
+    it('removes the background image from the SVG returned without a PNG', () => {
+        const document = annotatedDesign();
+        const svg = exportSvg(document);
+        assert.ok(svg.includes(image.dataUri));
+
+        const returned = removeBackgroundImage(svg, image.dataUri);
+        assert.ok(!returned.includes(image.dataUri));
+        assert.ok(!returned.includes('base64,iVBOR'));
+        // The annotations, including pictures the user placed, stay
+        assert.match(returned, /<circle [^>]*r="40"/);
+        assert.match(returned, /<image [^>]*href="data:image\/gif;base64,R0lGODlhAQABAAAAACw="/);
+        assert.strictEqual(returned, exportSvg({ ...document, backgroundImage: null }));
+    });
+
+    it('removes background images written with xlink:href or a closing tag', () => {
+        const svg = `<svg><image xlink:href="${image.dataUri}"></image><rect width="10" height="10" /></svg>`;
+        assert.strictEqual(removeBackgroundImage(svg, image.dataUri), '<svg><rect width="10" height="10" /></svg>');
+    });
+});
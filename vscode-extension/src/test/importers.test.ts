@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { createDesignDocument } from '../designDocument';
+import { validateDesign } from '../designSchema';
+import { findDesignImporter } from '../importers/designImporter';
+import { SvgImporter } from '../importers/svgImporter';
+import { readFixture } from './fixtures';
+
+describe('importers', () => {
+    for (const fileName of ['wireframe.excalidraw', 'wireframe.drawio', 'wireframe.svg']) {
+        it(`imports ${fileName}`, () => {
+            const importer = findDesignImporter(fileName);
+            assert.ok(importer);
+
+            const result = importer.import(readFixture('importers', fileName), fileName);
+            // Compare as JSON, which drops properties left undefined
+            assert.deepStrictEqual(JSON.parse(JSON.stringify(result)), JSON.parse(readFixture('importers', `${fileName}.expected.json`)));
+            assert.deepStrictEqual(validateDesign(createDesignDocument(result.design)), []);
+        });
+    }
+
+    it('resolves SVG percentages against the viewBox', () => {
+        const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="800" height="400" viewBox="0 0 400 200">'
+            + '<rect width="100%" height="100%" fill="#eeeeee" />'
+            + '<rect x="10%" y="25%" width="50%" height="50%" fill="#ff0000" />'
+            + '</svg>';
+        const { design } = new SvgImporter().import(svg, 'percentages.svg');
+
+        assert.strictEqual(design.backgroundColor, '#eeeeee');
+        assert.strictEqual(design.elements?.length, 1);
+        assert.deepStrictEqual(
+            (({ x, y, width, height }) => ({ x, y, width, height }))(design.elements[0]),
+            { x: 40, y: 50, width: 200, height: 100 }
+        );
+    });
+});
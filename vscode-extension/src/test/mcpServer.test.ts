@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { after, before, describe, it } from 'node:test';
+import { JsonRpcErrorCode, JsonRpcResponse } from '../mcpProtocol';
+
+/**
+ * Scripted MCP client talking to `out/mcpServer.js` over stdio
+ */
+class McpTestClient {
+    private readonly process: ChildProcessWithoutNullStreams;
+    private readonly waiting: ((response: JsonRpcResponse) => boolean)[] = [];
+    private buffer = '';
+
+    constructor(bridgeSocketPath: string) {
+        this.process = spawn(process.execPath, [path.join(__dirname, '..', 'mcpServer.js')], {
+            env: { ...process.env, KAZO_DESIGN_BRIDGE: bridgeSocketPath }
+        });
+        this.process.stdout.setEncoding('utf8');
+        this.process.stdout.on('data', (chunk: string) => {
+            this.buffer += chunk;
+            let newline: number;
+            while ((newline = this.buffer.indexOf('\n')) >= 0) {
+                const response = JSON.parse(this.buffer.slice(0, newline)) as JsonRpcResponse;
+                this.buffer = this.buffer.slice(newline + 1);
+                const index = this.waiting.findIndex(accept => accept(response));
+                if (index >= 0) {
+                    this.waiting.splice(index, 1);
+                }
+            }
+        });
+    }
+
+    /**
+     * Sends a raw line and resolves with the response whose id is `id`
+     */
+    public sendLine(line: string, id: number | string | null): Promise<JsonRpcResponse> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`No response for ${line}`)), 5000);
+            this.waiting.push(response => {
+                if (response.id !== id) {
+                    return false;
+                }
+                clearTimeout(timer);
+                resolve(response);
+                return true;
+            });
+            this.process.stdin.write(`${line}\n`);
+        });
+    }
+
+    public request(id: number, method: string, params?: Record<string, unknown>): Promise<JsonRpcResponse> {
+        return this.sendLine(JSON.stringify({ jsonrpc: '2.0', id, method, params }), id);
+    }
+
+    /**
+     * Closes stdin and resolves with the exit code once the server has stopped
+     */
+    public close(): Promise<number | null> {
+        return new Promise(resolve => {
+            this.process.on('exit', code => resolve(code));
+            this.process.stdin.end();
+        });
+    }
+}
+
+describe('standalone MCP server', () => {
+    let client: McpTestClient;
+
+    before(() => {
+        // No extension listens here, so the bridge is down
+        const socketPath = process.platform === 'win32'
+            ? `\\\\.\\pipe\\kazo-design-test-${process.pid}`
+            : path.join(os.tmpdir(), `kazo-design-test-${process.pid}.sock`);
+        client = new McpTestClient(socketPath);
+    });
+
+    after(async () => {
+        assert.strictEqual(await client.close(), 0);
+    });
+
+    it('answers initialize', async () => {
+        const response = await client.request(1, 'initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } });
+        const result = response.result as { protocolVersion: string; capabilities: Record<string, unknown>; serverInfo: { name: string } };
+        assert.strictEqual(result.protocolVersion, '2025-06-18');
+        assert.deepStrictEqual(result.capabilities, { tools: {} });
+        assert.strictEqual(result.serverInfo.name, 'kazo-design');
+    });
+
+    it('lists the tools declared in package.json', async () => {
+        const response = await client.request(2, 'tools/list');
+        const tools = (response.result as { tools: { name: string; inputSchema: unknown }[] }).tools;
+        const names = tools.map(tool => tool.name);
+        assert.ok(names.includes('kazo_request_sketch'));
+        assert.ok(names.includes('kazo_generate_code'));
+        assert.ok(tools.every(tool => typeof tool.inputSchema === 'object'));
+    });
+
+    it('reports an unreachable extension when the bridge is down', async () => {
+        const response = await client.request(3, 'tools/call', { name: 'kazo_get_capabilities', arguments: {} });
+        const result = response.result as { content: { type: string; text: string }[]; isError?: boolean };
+        assert.strictEqual(result.isError, true);
+        const body = JSON.parse(result.content[0].text) as { success: boolean; error: string };
+        assert.strictEqual(body.success, false);
+        assert.match(body.error, /Kazo Design is not reachable/);
+    });
+
+    it('rejects unknown tools', async () => {
+        const response = await client.request(4, 'tools/call', { name: 'kazo_missing' });
+        assert.strictEqual(response.error?.code, JsonRpcErrorCode.invalidParams);
+    });
+
+    it('answers invalid JSON with a parse error', async () => {
+        const response = await client.sendLine('{"jsonrpc": "2.0", "id": 5, "method": ', null);
+        assert.strictEqual(response.error?.code, JsonRpcErrorCode.parseError);
+    });
+
+    for (const line of ['null', '[1]', '"x"', '{"jsonrpc": "2.0", "id": 6}']) {
+        it(`answers ${line} with an invalid request error`, async () => {
+            const response = await client.sendLine(line, line.includes('"id"') ? 6 : null);
+            assert.strictEqual(response.error?.code, JsonRpcErrorCode.invalidRequest);
+        });
+    }
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DesignDocument, createDesignDocument } from '../designDocument';
+import { exportDrawio } from '../exporters/drawioExporter';
+import { exportExcalidraw } from '../exporters/excalidrawExporter';
+import { DrawioImporter } from '../importers/drawioImporter';
+import { ExcalidrawImporter } from '../importers/excalidrawImporter';
+
+const design = createDesignDocument({
+    title: 'Settings',
+    elements: [
+        { type: 'rectangle', id: 'page', name: 'Page', meaning: 'Body', x: 0, y: 0, width: 800, height: 600 },
+        { type: 'rectangle', id: 'dialog', name: 'Settings Dialog', meaning: 'View', description: 'Opens from the gear icon', x: 100, y: 80, width: 300, height: 200 },
+        { type: 'text', id: 'dialog-title', name: 'Dialog Title', parent: 'Settings Dialog', x: 20, y: 30, content: 'Settings' },
+        { type: 'rectangle', id: 'save', name: 'Save', meaning: 'Control', description: 'Saves and closes', parent: 'Settings Dialog', x: 20, y: 120, width: 100, height: 40 },
+        { type: 'line', id: 'divider', name: 'Divider', parent: 'Settings Dialog', x: 0, y: 60, x2: 300, y2: 60 },
+        { type: 'circle', id: 'avatar', name: 'Avatar', meaning: 'ImagePlaceholder', x: 700, y: 50, radius: 20 }
+    ]
+});
+
+/**
+ * What a round trip must keep for each element, keyed by id
+ */
+function summarize(document: DesignDocument): Record<string, unknown> {
+    return Object.fromEntries(document.elements.map(element => [element.id, {
+        type: element.$type,
+        name: element.name,
+        meaning: element.meaning,
+        description: element.description,
+        parent: element.parent,
+        // Text is positioned differently by each tool, so only shapes on Views are compared exactly
+        position: element.parent && element.$type !== 'text' ? [element.x, element.y] : undefined
+    }]));
+}
+
+describe('export and import round trips', () => {
+    it('keeps names, meanings, descriptions and Views through Excalidraw', () => {
+        const { design: imported } = new ExcalidrawImporter().import(exportExcalidraw(design), 'settings.excalidraw');
+        assert.deepStrictEqual(summarize(createDesignDocument(imported)), summarize(design));
+    });
+
+    it('keeps names, meanings, descriptions and Views through draw.io', () => {
+        const { design: imported } = new DrawioImporter().import(exportDrawio(design), 'settings.drawio');
+        assert.deepStrictEqual(summarize(createDesignDocument(imported)), summarize(design));
+    });
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { TextConstraints, TextFormat, checkTextConstraints, validateText } from '../forms/textValidation';
+
+describe('validateText', () => {
+    it('rejects empty answers only when required', () => {
+        assert.strictEqual(validateText('', { required: true }), 'An answer is required');
+        assert.strictEqual(validateText('   ', { required: true }), 'An answer is required');
+        assert.strictEqual(validateText('', {}), undefined);
+        assert.strictEqual(validateText('anything', { required: true }), undefined);
+    });
+
+    it('lets empty optional answers skip the other constraints', () => {
+        assert.strictEqual(validateText('', { minLength: 3, format: 'email', pattern: '^a' }), undefined);
+        assert.strictEqual(validateText('', { required: true, minLength: 3 }), 'An answer is required');
+    });
+
+    it('checks the length limits', () => {
+        const constraints: TextConstraints = { minLength: 3, maxLength: 5 };
+        assert.strictEqual(validateText('ab', constraints), 'Enter at least 3 characters');
+        assert.strictEqual(validateText('abc', constraints), undefined);
+        assert.strictEqual(validateText('abcde', constraints), undefined);
+        assert.strictEqual(validateText('abcdef', constraints), 'Enter at most 5 characters');
+        assert.strictEqual(validateText('', { minLength: 1, required: true }), 'An answer is required');
+        assert.strictEqual(validateText('ab', { maxLength: 1 }), 'Enter at most 1 character');
+    });
+
+    const formats: [TextFormat, string[], string[]][] = [
+        ['email', ['name@example.com', 'a.b+c@mail.example.org'], ['name', 'name@example', 'a b@example.com']],
+        ['url', ['https://example.com', 'vscode://file/path?x=1'], ['example.com', 'https://', 'http://exa mple.com']],
+        ['semver', ['1.2.3', '0.0.1-beta.1', '10.20.30+build.5'], ['1.2', '01.2.3', 'v1.2.3']],
+        ['identifier', ['name', '_private', '$el', 'camelCase2'], ['2fast', 'kebab-case', 'with space']],
+        ['number', ['42', '-3.5', '1e3'], ['abc', '12px', 'Infinity']]
+    ];
+    for (const [format, valid, invalid] of formats) {
+        it(`checks the ${format} format`, () => {
+            for (const value of valid) {
+                assert.strictEqual(validateText(value, { format }), undefined, value);
+            }
+            for (const value of invalid) {
+                assert.ok(validateText(value, { format }), value);
+            }
+        });
+    }
+
+    it('checks the pattern anywhere in the value', () => {
+        assert.strictEqual(validateText('ticket-42', { pattern: '\\d+' }), undefined);
+        assert.strictEqual(validateText('ticket', { pattern: '\\d+' }), 'Must match the pattern \\d+');
+        assert.strictEqual(validateText('ticket', { pattern: '^\\d+$', errorMessage: 'Digits only' }), 'Digits only');
+    });
+
+    it('reports the first broken constraint', () => {
+        assert.strictEqual(validateText('a', { minLength: 2, format: 'number', pattern: 'b' }), 'Enter at least 2 characters');
+        assert.strictEqual(validateText('ab', { minLength: 2, format: 'number', pattern: 'c' }), 'Enter a number');
+    });
+});
+
+describe('checkTextConstraints', () => {
+    it('accepts supported formats and valid patterns', () => {
+        assert.doesNotThrow(() => checkTextConstraints({ format: 'semver', pattern: '^[a-z]+$' }));
+        assert.doesNotThrow(() => checkTextConstraints({}));
+    });
+
+    it('rejects unknown formats, including inherited property names', () => {
+        for (const format of ['phone', 'toString', 'constructor']) {
+            assert.throws(
+                () => checkTextConstraints({ format: format as TextFormat }),
+                new RegExp(`^Error: Unsupported format "${format}" \\(use email, url, semver, identifier, number\\)$`)
+            );
+        }
+    });
+
+    it('rejects invalid patterns', () => {
+        assert.throws(() => checkTextConstraints({ pattern: '([a-z' }), /^Error: Invalid pattern: \(\[a-z$/);
+    });
+});
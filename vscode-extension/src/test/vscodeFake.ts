@@ -0,0 +1,126 @@
+import Module from 'module';
+import * as path from 'path';
+
+/**
+ * The parts of the `vscode` API used by the modules under test, for tests that
+ * run in plain Node. Importing this file serves it for `require('vscode')`, so
+ * it must be imported before the modules under test.
+ */
+
+export class Uri {
+    private constructor(
+        public readonly scheme: string,
+        public readonly authority: string,
+        public readonly path: string,
+        public readonly query = '',
+        public readonly fragment = ''
+    ) { }
+
+    public static parse(value: string): Uri {
+        const match = /^([a-zA-Z][\w+.-]*):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(value);
+        if (!match) {
+            throw new Error(`Invalid URI: ${value}`);
+        }
+        return new Uri(match[1], match[2] ?? '', match[3], match[4] ?? '', match[5] ?? '');
+    }
+
+    public static file(fsPath: string): Uri {
+        return new Uri('file', '', fsPath.replace(/\\/g, '/'));
+    }
+
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+        return base.with({ path: path.posix.join(base.path, ...segments) });
+    }
+
+    public get fsPath(): string {
+        return this.path;
+    }
+
+    public with(change: { scheme?: string; authority?: string; path?: string; query?: string; fragment?: string }): Uri {
+        return new Uri(
+            change.scheme ?? this.scheme,
+            change.authority ?? this.authority,
+            change.path ?? this.path,
+            change.query ?? this.query,
+            change.fragment ?? this.fragment
+        );
+    }
+
+    public toString(): string {
+        const authority = this.authority || this.scheme === 'file' ? `//${this.authority}` : '';
+        return `${this.scheme}:${authority}${this.path}${this.query ? `?${this.query}` : ''}${this.fragment ? `#${this.fragment}` : ''}`;
+    }
+}
+
+export class Range {
+    constructor(
+        public readonly startLine: number,
+        public readonly startCharacter: number,
+        public readonly endLine: number,
+        public readonly endCharacter: number
+    ) { }
+}
+
+export class WorkspaceEdit {
+    public readonly replacements: { uri: Uri; range: Range; text: string }[] = [];
+
+    public replace(uri: Uri, range: Range, text: string): void {
+        this.replacements.push({ uri, range, text });
+    }
+}
+
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2
+}
+
+/** Text of the untitled documents opened through `workspace.openTextDocument` */
+export const untitledDocuments = new Map<string, string>();
+
+export const workspace = {
+    async openTextDocument(uri: Uri) {
+        const text = untitledDocuments.get(uri.toString()) ?? '';
+        untitledDocuments.set(uri.toString(), text);
+        return { uri, lineCount: text.split('\n').length, getText: () => untitledDocuments.get(uri.toString()) ?? '' };
+    },
+
+    /** Replaces whole documents, which is all the code under test does */
+    async applyEdit(edit: WorkspaceEdit): Promise<boolean> {
+        for (const { uri, text } of edit.replacements) {
+            if (!untitledDocuments.has(uri.toString())) {
+                return false;
+            }
+            untitledDocuments.set(uri.toString(), text);
+        }
+        return true;
+    },
+
+    asRelativePath(uri: Uri): string {
+        return uri.path;
+    }
+};
+
+/** Messages shown through `window.show*Message`, most recent last */
+export const shownMessages: { severity: 'information' | 'warning' | 'error'; message: string }[] = [];
+
+export const window = {
+    async showInformationMessage(message: string) {
+        shownMessages.push({ severity: 'information', message });
+        return undefined;
+    },
+    async showWarningMessage(message: string) {
+        shownMessages.push({ severity: 'warning', message });
+        return undefined;
+    },
+    async showErrorMessage(message: string) {
+        shownMessages.push({ severity: 'error', message });
+        return undefined;
+    }
+};
+
+const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+    return request === 'vscode' ? __filename : resolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Resolves a user- or tool-supplied path: absolute paths are used as-is,
+ * relative paths are resolved against the first workspace folder
+ */
+export function resolveWorkspacePath(filePath: string): vscode.Uri {
+    if (path.isAbsolute(filePath)) {
+        return vscode.Uri.file(filePath);
+    }
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        throw new Error(`Cannot resolve relative path "${filePath}" without an open workspace`);
+    }
+    return vscode.Uri.joinPath(folder.uri, filePath);
+}
+
+/**
+ * Resolves a path like `resolveWorkspacePath`, but throws when it points
+ * outside the workspace folders (absolute paths elsewhere, `..` segments)
+ */
+export function resolvePathInWorkspace(filePath: string): vscode.Uri {
+    const uri = resolveWorkspacePath(filePath);
+    const inside = (vscode.workspace.workspaceFolders ?? []).some(folder => {
+        if (folder.uri.scheme !== uri.scheme || folder.uri.authority !== uri.authority) {
+            return false;
+        }
+        const relative = path.posix.relative(folder.uri.path, uri.path);
+        return relative !== '..' && !relative.startsWith('../') && !path.posix.isAbsolute(relative);
+    });
+    if (!inside) {
+        throw new Error(`"${filePath}" is outside the workspace folders`);
+    }
+    return uri;
+}
+
+/**
+ * Returns true when the file or folder exists
+ */
+export async function exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}